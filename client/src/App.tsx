@@ -10,6 +10,12 @@ import Login from "@/pages/login";
 import Signup from "@/pages/signup";
 import Establishments from "@/pages/establishments";
 import EstablishmentDetails from "@/pages/establishment-details";
+import AdminUsers from "@/pages/admin-users";
+import AdminTaxonomy from "@/pages/admin-taxonomy";
+import AdminLocations from "@/pages/admin-locations";
+import TrashPage from "@/pages/trash";
+import ImportPage from "@/pages/import";
+import Search from "@/pages/search";
 import { Helmet } from "react-helmet";
 
 function Router() {
@@ -19,6 +25,12 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/signup" component={Signup} />
       <Route path="/establishments/:id" component={EstablishmentDetails} />
+      <Route path="/search" component={Search} />
+      <Route path="/admin/users" component={AdminUsers} />
+      <Route path="/admin/taxonomy" component={AdminTaxonomy} />
+      <Route path="/admin/locations" component={AdminLocations} />
+      <Route path="/trash" component={TrashPage} />
+      <Route path="/import" component={ImportPage} />
       <Route component={NotFound} />
     </Switch>
   );
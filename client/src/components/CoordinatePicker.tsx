@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LocateFixed, X } from "lucide-react";
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+interface CoordinatePickerProps {
+  value: Coordinates | null;
+  onChange: (value: Coordinates | null) => void;
+}
+
+// Parse a coordinate typed by the user; null unless it is a number within ±limit
+function parseCoordinate(text: string, limit: number): number | null {
+  if (text.trim() === "") return null;
+  const value = Number(text);
+  return Number.isFinite(value) && Math.abs(value) <= limit ? value : null;
+}
+
+export default function CoordinatePicker({ value, onChange }: CoordinatePickerProps) {
+  // Inputs keep their own text so partial entries like "-" or "48." can be typed
+  const [latitudeText, setLatitudeText] = useState(value?.latitude.toString() ?? "");
+  const [longitudeText, setLongitudeText] = useState(value?.longitude.toString() ?? "");
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow changes made from outside, e.g. when the form is reset
+  useEffect(() => {
+    setLatitudeText(value?.latitude.toString() ?? "");
+    setLongitudeText(value?.longitude.toString() ?? "");
+  }, [value?.latitude, value?.longitude]);
+
+  const update = (latText: string, lngText: string) => {
+    setLatitudeText(latText);
+    setLongitudeText(lngText);
+
+    if (latText.trim() === "" && lngText.trim() === "") {
+      setError(null);
+      onChange(null);
+      return;
+    }
+
+    const latitude = parseCoordinate(latText, 90);
+    const longitude = parseCoordinate(lngText, 180);
+    if (latitude === null || longitude === null) {
+      setError("Enter a latitude between -90 and 90 and a longitude between -180 and 180");
+      return;
+    }
+
+    setError(null);
+    onChange({ latitude, longitude });
+  };
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setError("Your browser cannot share its location");
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        // Six decimal places is about 10 cm, plenty for a street address
+        update(position.coords.latitude.toFixed(6), position.coords.longitude.toFixed(6));
+      },
+      (positionError) => {
+        setIsLocating(false);
+        setError(positionError.message || "Could not determine your location");
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          inputMode="decimal"
+          placeholder="Latitude"
+          aria-label="Latitude"
+          value={latitudeText}
+          onChange={(e) => update(e.target.value, longitudeText)}
+        />
+        <Input
+          inputMode="decimal"
+          placeholder="Longitude"
+          aria-label="Longitude"
+          value={longitudeText}
+          onChange={(e) => update(latitudeText, e.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={useCurrentLocation} disabled={isLocating}>
+          <LocateFixed className="mr-2 h-4 w-4" />
+          {isLocating ? "Locating..." : "Use my location"}
+        </Button>
+        {value && (
+          <>
+            <Button type="button" variant="ghost" size="sm" onClick={() => update("", "")}>
+              <X className="mr-1 h-4 w-4" /> Clear
+            </Button>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${value.latitude}&mlon=${value.longitude}#map=17/${value.latitude}/${value.longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary hover:underline"
+            >
+              Check on map
+            </a>
+          </>
+        )}
+      </div>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
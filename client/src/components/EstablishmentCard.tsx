@@ -1,6 +1,10 @@
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardFooter } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import OpeningStatus from "@/components/OpeningStatus";
+import TermBadge from "@/components/TermBadge";
+import LocationBreadcrumb from "@/components/LocationBreadcrumb";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { useLocations } from "@/hooks/use-locations";
 import { Star, MapPin, FileText } from "lucide-react";
 import type { FirebaseEstablishment } from "@shared/schema";
 
@@ -10,20 +14,9 @@ interface EstablishmentCardProps {
 }
 
 export default function EstablishmentCard({ establishment, attachmentsCount = 0 }: EstablishmentCardProps) {
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case "Restaurant":
-        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100";
-      case "Retail":
-        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100";
-      case "Services":
-        return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100";
-      case "Entertainment":
-        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100";
-      default:
-        return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100";
-    }
-  };
+  const { getCategory, getTag } = useTaxonomy();
+  const { getPath } = useLocations();
+  const locationPath = getPath(establishment.locationId);
 
   return (
     <Link href={`/establishments/${establishment.id}`}>
@@ -44,21 +37,36 @@ export default function EstablishmentCard({ establishment, attachmentsCount = 0
         
         <CardContent className="p-4 flex-1">
           <div className="flex items-center justify-between mb-2">
-            <Badge variant="outline" className={`${getCategoryColor(establishment.category)} px-2 py-0.5 text-xs font-medium`}>
-              {establishment.category}
-            </Badge>
+            <TermBadge term={getCategory(establishment.category)} slug={establishment.category} />
             <div className="flex items-center">
               <Star className="h-4 w-4 fill-current text-yellow-500 mr-1" />
-              <span className="text-sm font-medium">{establishment.rating}</span>
+              <span className="text-sm font-medium">
+                {establishment.rating !== null ? establishment.rating.toFixed(1) : "New"}
+              </span>
             </div>
           </div>
           
           <h3 className="text-lg font-semibold mb-1">{establishment.name}</h3>
+          {/* Inside the card's link, so the levels are not links themselves */}
+          <LocationBreadcrumb path={locationPath} linked={false} className="mb-1" />
           <p className="text-sm text-gray-600 dark:text-gray-400 mb-3 flex items-center">
             <MapPin className="h-4 w-4 mr-1" />
             {establishment.location}
+            {establishment.distanceKm != null && (
+              <span className="ml-auto text-xs">{establishment.distanceKm.toFixed(1)} km away</span>
+            )}
           </p>
           
+          {establishment.schedule && <OpeningStatus schedule={establishment.schedule} className="mb-3" />}
+          
+          {establishment.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-3">
+              {establishment.tags.map((slug) => (
+                <TermBadge key={slug} term={getTag(slug)} slug={slug} />
+              ))}
+            </div>
+          )}
+          
           <p className="text-sm text-gray-700 dark:text-gray-300 mb-4 line-clamp-3">
             {establishment.description || "No description available"}
           </p>
@@ -112,7 +112,7 @@ export default function FileItem({ attachment, onDelete, allowDelete = false }:
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you sure you want to delete this file?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete the file.
+                  The file moves to the trash, where it can be restored until it is permanently deleted.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
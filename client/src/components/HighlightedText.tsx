@@ -0,0 +1,26 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  // Text with search matches wrapped in <mark>…</mark>, as returned by the API
+  text: string;
+  className?: string;
+}
+
+// Renders search highlights as <mark> elements without interpreting any other markup in the text
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5 dark:bg-yellow-700">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
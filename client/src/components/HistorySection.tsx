@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldFormat } from "@/hooks/use-field-format";
+import { fetchHistory, revertChange } from "@/lib/adapters";
+import type { AuditEntryWithActor, AuditAction } from "@shared/schema";
+import { format } from "date-fns";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+interface HistorySectionProps {
+  establishmentId: string;
+  canRevert: boolean;
+  // Called after a revert, since the establishment's details change with it
+  onReverted?: () => void;
+}
+
+export default function HistorySection({ establishmentId, canRevert, onReverted }: HistorySectionProps) {
+  const { toast } = useToast();
+  const { formatLabel, formatValue } = useFieldFormat();
+  const [entries, setEntries] = useState<AuditEntryWithActor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    setEntries(await fetchHistory(establishmentId));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [establishmentId]);
+
+  const handleRevert = async (entry: AuditEntryWithActor) => {
+    try {
+      setRevertingId(entry.id);
+      await revertChange(establishmentId, entry.id);
+      toast({
+        title: "Change reverted",
+        description: "The earlier values have been restored.",
+      });
+      onReverted?.();
+      await loadHistory();
+    } catch (error: any) {
+      toast({
+        title: "Error reverting change",
+        description: error.message || "There was an error reverting the change",
+        variant: "destructive",
+      });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, index) => (
+          <Skeleton key={index} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No changes recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const fields = Object.entries(entry.changes);
+        return (
+          <Card key={entry.id}>
+            <CardContent className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                    {ACTION_LABELS[entry.action]} {entry.entityType === "attachment" ? "file" : "details"}
+                  </Badge>
+                  {entry.revertOf !== null && <Badge variant="outline">Revert</Badge>}
+                  <span className="font-medium">
+                    {entry.actor ? entry.actor.displayName || entry.actor.username : "System"}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {entry.createdAt ? format(new Date(entry.createdAt), "MMM d, yyyy HH:mm") : ""}
+                  </span>
+                </div>
+                {canRevert && entry.entityType === "establishment" && entry.action === "update" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevert(entry)}
+                    disabled={revertingId !== null}
+                  >
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    {revertingId === entry.id ? "Reverting..." : "Revert"}
+                  </Button>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <tbody>
+                  {fields.map(([field, change]) => (
+                    <tr key={field} className="align-top">
+                      <td className="py-1 pr-4 font-medium whitespace-nowrap">{formatLabel(field)}</td>
+                      <td className="py-1 pr-4 text-red-700 dark:text-red-400 line-through break-words">
+                        {entry.action !== "create" && formatValue(field, change.before)}
+                      </td>
+                      <td className="py-1 text-green-700 dark:text-green-400 break-words">
+                        {entry.action !== "delete" && formatValue(field, change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
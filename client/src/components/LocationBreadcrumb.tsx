@@ -0,0 +1,44 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import type { Location } from "@shared/schema";
+
+interface LocationBreadcrumbProps {
+  // The location and its ancestors, root first
+  path: Location[];
+  // Link each level to the establishments filed under it; off inside other links
+  linked?: boolean;
+  className?: string;
+}
+
+// e.g. Paris › Le Marais › Oberkampf
+export default function LocationBreadcrumb({ path, linked = true, className }: LocationBreadcrumbProps) {
+  if (path.length === 0) return null;
+
+  return (
+    <Breadcrumb className={className}>
+      <BreadcrumbList className="gap-1 sm:gap-1.5">
+        {path.map((location, index) => (
+          <Fragment key={location.id}>
+            {index > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {linked ? (
+                <BreadcrumbLink asChild>
+                  <Link href={`/?location=${location.id}`}>{location.name}</Link>
+                </BreadcrumbLink>
+              ) : (
+                <span>{location.name}</span>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import OpeningStatus from "@/components/OpeningStatus";
+import OpeningHoursModal from "@/components/modals/OpeningHoursModal";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pencil } from "lucide-react";
+import { fetchSchedule } from "@/lib/adapters";
+import { DAY_NAMES, formatShifts } from "@shared/hours";
+import type { EstablishmentSchedule } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+// Monday first, as most opening hours are written
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface OpeningHoursSectionProps {
+  establishmentId: string;
+  version: number;
+  canEdit: boolean;
+  // Saving the time zone changes the establishment's version
+  onEstablishmentChanged: () => void;
+}
+
+export default function OpeningHoursSection({ establishmentId, version, canEdit, onEstablishmentChanged }: OpeningHoursSectionProps) {
+  const [schedule, setSchedule] = useState<EstablishmentSchedule | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showEditor, setShowEditor] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchSchedule(establishmentId).then((loaded) => {
+      setSchedule(loaded);
+      setIsLoading(false);
+    });
+  }, [establishmentId]);
+
+  const handleSaved = (saved: EstablishmentSchedule) => {
+    setSchedule(saved);
+    onEstablishmentChanged();
+  };
+
+  // Show what the other change left, which the editor then starts from
+  const handleConflict = async () => {
+    const loaded = await fetchSchedule(establishmentId);
+    if (loaded) {
+      setSchedule(loaded);
+    }
+    onEstablishmentChanged();
+  };
+
+  // Past exception dates no longer matter to visitors
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingExceptions = schedule?.exceptions.filter((exception) => exception.date >= today) ?? [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-medium">Opening hours</h2>
+        {canEdit && schedule && (
+          <Button variant="outline" size="sm" onClick={() => setShowEditor(true)}>
+            <Pencil className="mr-2 h-4 w-4" /> Edit hours
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full max-w-md" />
+      ) : schedule ? (
+        <div className="max-w-md space-y-4">
+          <OpeningStatus schedule={schedule} />
+
+          {schedule.hours.length > 0 && (
+            <table className="w-full text-sm">
+              <tbody>
+                {WEEK_ORDER.map((dayOfWeek) => (
+                  <tr key={dayOfWeek}>
+                    <td className="py-1 pr-4 font-medium">{DAY_NAMES[dayOfWeek]}</td>
+                    <td className="py-1 text-gray-700 dark:text-gray-300">
+                      {formatShifts(
+                        schedule.hours
+                          .filter((shift) => shift.dayOfWeek === dayOfWeek)
+                          .sort((a, b) => a.opensAt.localeCompare(b.opensAt))
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {upcomingExceptions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium mb-1">Special dates</h3>
+              <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                {upcomingExceptions.map((exception, index) => (
+                  <li key={index}>
+                    {format(parseISO(exception.date), "EEE, MMM d")}
+                    {exception.label && ` (${exception.label})`}:{" "}
+                    {exception.opensAt && exception.closesAt
+                      ? formatShifts([{ opensAt: exception.opensAt, closesAt: exception.closesAt }])
+                      : "Closed"}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">Times are local to {schedule.timezone}.</p>
+        </div>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">Opening hours could not be loaded.</p>
+      )}
+
+      {schedule && (
+        <OpeningHoursModal
+          isOpen={showEditor}
+          onClose={() => setShowEditor(false)}
+          establishmentId={establishmentId}
+          version={version}
+          schedule={schedule}
+          onSaved={handleSaved}
+          onConflict={handleConflict}
+        />
+      )}
+    </div>
+  );
+}
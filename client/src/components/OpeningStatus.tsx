@@ -0,0 +1,36 @@
+import { Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatShifts, getOpeningStatus } from "@shared/hours";
+import type { EstablishmentSchedule } from "@shared/schema";
+
+interface OpeningStatusProps {
+  schedule: EstablishmentSchedule;
+  className?: string;
+}
+
+// "Open now · 12:00–14:00, 18:00–23:00" for the current moment, in the establishment's time zone
+export default function OpeningStatus({ schedule, className }: OpeningStatusProps) {
+  if (schedule.hours.length === 0 && schedule.exceptions.length === 0) {
+    return (
+      <p className={cn("flex items-center text-sm text-gray-500 dark:text-gray-400", className)}>
+        <Clock className="h-4 w-4 mr-1" />
+        Hours not listed
+      </p>
+    );
+  }
+
+  const status = getOpeningStatus(schedule);
+
+  return (
+    <p className={cn("flex items-center text-sm text-gray-600 dark:text-gray-400", className)}>
+      <Clock className="h-4 w-4 mr-1 shrink-0" />
+      <span className={cn("font-medium mr-1", status.isOpen ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400")}>
+        {status.isOpen ? "Open now" : "Closed"}
+      </span>
+      <span className="truncate">
+        · Today {formatShifts(status.today)}
+        {status.exceptionLabel && ` (${status.exceptionLabel})`}
+      </span>
+    </p>
+  );
+}
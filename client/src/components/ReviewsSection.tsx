@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import StarRating from "@/components/StarRating";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchReviews, createReview, updateReview, deleteReview } from "@/lib/adapters";
+import type { ReviewWithAuthor, WithPermissions } from "@shared/schema";
+import { format } from "date-fns";
+
+interface ReviewsSectionProps {
+  establishmentId: string;
+  // Called after a review is added, changed or removed, since the establishment's rating changes with it
+  onReviewsChanged?: () => void;
+}
+
+export default function ReviewsSection({ establishmentId, onReviewsChanged }: ReviewsSectionProps) {
+  const { currentUser, profile, can } = useAuth();
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<WithPermissions<ReviewWithAuthor>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // The review being edited, or "new" while writing one
+  const [editing, setEditing] = useState<number | "new" | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const loadReviews = async () => {
+    setIsLoading(true);
+    setReviews(await fetchReviews(establishmentId));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, [establishmentId]);
+
+  const ownReview = profile ? reviews.find((review) => review.userId === profile.id) : undefined;
+  const canWriteReview = !!currentUser && can("review:create") && !ownReview;
+
+  const startEditing = (review?: ReviewWithAuthor) => {
+    setEditing(review ? review.id : "new");
+    setRating(review?.rating ?? 0);
+    setComment(review?.comment ?? "");
+  };
+
+  const handleSave = async () => {
+    if (rating === 0) {
+      toast({
+        title: "Rating required",
+        description: "Choose between 1 and 5 stars",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = { rating, comment: comment.trim() || null };
+
+      if (editing === "new") {
+        await createReview(establishmentId, input);
+      } else if (editing !== null) {
+        await updateReview(editing, input);
+      }
+
+      setEditing(null);
+      await loadReviews();
+      onReviewsChanged?.();
+    } catch (error: any) {
+      toast({
+        title: "Error saving review",
+        description: error.message || "There was an error saving your review",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (review: ReviewWithAuthor) => {
+    try {
+      await deleteReview(review.id);
+      await loadReviews();
+      onReviewsChanged?.();
+    } catch (error: any) {
+      toast({
+        title: "Error deleting review",
+        description: error.message || "There was an error deleting the review",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reviewForm = (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-3">
+        <StarRating value={rating} onChange={setRating} starClassName="h-6 w-6" />
+        <Textarea
+          placeholder="Share your experience (optional)"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={2000}
+          rows={4}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save review"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-medium">Reviews</h2>
+        {canWriteReview && editing === null && (
+          <Button variant="outline" onClick={() => startEditing()}>
+            Write a review
+          </Button>
+        )}
+      </div>
+
+      {editing === "new" && reviewForm}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(2)].map((_, index) => (
+            <Skeleton key={index} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : reviews.length > 0 ? (
+        <div className="space-y-3">
+          {reviews.map((review) =>
+            editing === review.id ? (
+              <div key={review.id}>{reviewForm}</div>
+            ) : (
+              <Card key={review.id}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={review.author.photoURL || ""} alt={review.author.displayName || "Reviewer"} />
+                        <AvatarFallback>{(review.author.displayName || "?")[0].toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="text-sm font-medium">{review.author.displayName || "Anonymous"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {review.createdAt ? format(new Date(review.createdAt), "MMM d, yyyy") : ""}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <StarRating value={review.rating} />
+                      {review.permissions.canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(review)} aria-label="Edit review">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {review.permissions.canDelete && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label="Delete review">
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this review?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The establishment's rating will be recalculated without it.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(review)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+                  {review.comment && (
+                    <p className="mt-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{review.comment}</p>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">No reviews yet.</p>
+      )}
+    </div>
+  );
+}
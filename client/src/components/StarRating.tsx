@@ -0,0 +1,47 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_RATING } from "@shared/schema";
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable buttons that pick a whole-star rating
+  onChange?: (value: number) => void;
+  className?: string;
+  starClassName?: string;
+}
+
+export default function StarRating({ value, onChange, className, starClassName = "h-4 w-4" }: StarRatingProps) {
+  return (
+    <div className={cn("flex items-center", className)} role={onChange ? "radiogroup" : "img"} aria-label={`${value} out of ${MAX_RATING} stars`}>
+      {Array.from({ length: MAX_RATING }, (_, index) => {
+        const starValue = index + 1;
+        const star = (
+          <Star
+            className={cn(
+              starClassName,
+              starValue <= Math.round(value)
+                ? "fill-current text-yellow-500"
+                : "text-gray-300 dark:text-gray-600"
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={starValue}
+            type="button"
+            role="radio"
+            aria-checked={starValue === value}
+            aria-label={`${starValue} ${starValue === 1 ? "star" : "stars"}`}
+            className="p-0.5"
+            onClick={() => onChange(starValue)}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={starValue}>{star}</span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { icons } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { DEFAULT_TERM_COLOR, type TaxonomyTerm } from "@shared/schema";
+
+interface TermBadgeProps {
+  // The term to show; a slug alone is shown as-is while the terms load, or when it has been deleted
+  term: TaxonomyTerm | undefined;
+  slug: string;
+  className?: string;
+}
+
+// "utensils-crossed" -> "UtensilsCrossed", the name lucide exports the icon under
+function iconComponent(name: string | null) {
+  if (!name) return undefined;
+  const key = name.replace(/(^|-)([a-z0-9])/g, (_, __, letter: string) => letter.toUpperCase());
+  return icons[key as keyof typeof icons];
+}
+
+// A category or tag in its admin-chosen colour and icon
+export default function TermBadge({ term, slug, className }: TermBadgeProps) {
+  const color = term?.color ?? DEFAULT_TERM_COLOR;
+  const Icon = iconComponent(term?.icon ?? null);
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("px-2 py-0.5 text-xs font-medium", className)}
+      style={{ color, borderColor: color, backgroundColor: `${color}1a` }}
+    >
+      {Icon && <Icon className="h-3 w-3 mr-1" />}
+      {term?.name ?? slug}
+    </Badge>
+  );
+}
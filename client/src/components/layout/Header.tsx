@@ -1,10 +1,10 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/contexts/AuthContext";
-import { Moon, Sun, Search, LogOut, User, Settings } from "lucide-react";
+import { Moon, Sun, Search, LogOut, User, Settings, Users, Tags, MapPinned, Trash2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,10 +13,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import HeaderSearch from "./HeaderSearch";
 
 export default function Header() {
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const { currentUser, logout } = useAuth();
+  const { currentUser, profile, can, logout } = useAuth();
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
@@ -63,18 +64,11 @@ export default function Header() {
           </div>
 
           <div className="flex items-center space-x-4">
-            <div className="relative hidden md:block">
-              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                <Search className="text-gray-500 h-4 w-4" />
-              </div>
-              <Input 
-                type="search" 
-                className="pl-10 py-1.5 w-[200px] lg:w-[300px]" 
-                placeholder="Search establishments..." 
-              />
+            <div className="hidden md:block">
+              <HeaderSearch />
             </div>
 
-            <Button variant="outline" size="icon" className="md:hidden">
+            <Button variant="outline" size="icon" className="md:hidden" onClick={() => navigate("/search")}>
               <Search className="h-5 w-5" />
             </Button>
 
@@ -94,7 +88,12 @@ export default function Header() {
                 </DropdownMenuTrigger>
                 <DropdownMenuContent className="w-56" align="end" forceMount>
                   <div className="flex flex-col space-y-1 p-2">
-                    <p className="text-sm font-medium leading-none">{currentUser.displayName || "User"}</p>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium leading-none">{currentUser.displayName || "User"}</p>
+                      {profile?.role === "admin" && (
+                        <Badge variant="secondary" className="text-xs">Admin</Badge>
+                      )}
+                    </div>
                     <p className="text-xs leading-none text-muted-foreground">
                       {currentUser.email}
                     </p>
@@ -108,6 +107,30 @@ export default function Header() {
                     <Settings className="mr-2 h-4 w-4" />
                     <span>Settings</span>
                   </DropdownMenuItem>
+                  {can("establishment:delete") && (
+                    <DropdownMenuItem onClick={() => navigate("/trash")}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Trash</span>
+                    </DropdownMenuItem>
+                  )}
+                  {can("user:list") && (
+                    <DropdownMenuItem onClick={() => navigate("/admin/users")}>
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>Manage users</span>
+                    </DropdownMenuItem>
+                  )}
+                  {can("taxonomy:manage") && (
+                    <DropdownMenuItem onClick={() => navigate("/admin/taxonomy")}>
+                      <Tags className="mr-2 h-4 w-4" />
+                      <span>Categories and tags</span>
+                    </DropdownMenuItem>
+                  )}
+                  {can("location:manage") && (
+                    <DropdownMenuItem onClick={() => navigate("/admin/locations")}>
+                      <MapPinned className="mr-2 h-4 w-4" />
+                      <span>Locations</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { Search, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import HighlightedText from "@/components/HighlightedText";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { fetchEstablishments } from "@/lib/adapters";
+import type { FirebaseEstablishment } from "@shared/schema";
+
+const SUGGESTION_LIMIT = 5;
+
+export default function HeaderSearch() {
+  const [, navigate] = useLocation();
+  const { getCategory } = useTaxonomy();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<FirebaseEstablishment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  // Fetch suggestions once typing pauses, ignoring responses for stale queries
+  useEffect(() => {
+    if (debouncedQuery.length < 2) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    fetchEstablishments({ q: debouncedQuery }, "Relevance", { limit: SUGGESTION_LIMIT })
+      .then((page) => {
+        if (cancelled) return;
+        setResults(page.items);
+        setTotal(page.total);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  // Close the suggestions when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const showAllResults = () => {
+    const q = query.trim();
+    if (!q) return;
+    setIsOpen(false);
+    navigate(`/search?q=${encodeURIComponent(q)}`);
+  };
+
+  const openEstablishment = (id: string) => {
+    setIsOpen(false);
+    setQuery("");
+    navigate(`/establishments/${id}`);
+  };
+
+  const showSuggestions = isOpen && debouncedQuery.length >= 2;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+        {isSearching ? (
+          <Loader2 className="text-gray-500 h-4 w-4 animate-spin" />
+        ) : (
+          <Search className="text-gray-500 h-4 w-4" />
+        )}
+      </div>
+      <Input
+        type="search"
+        className="pl-10 py-1.5 w-[200px] lg:w-[300px]"
+        placeholder="Search establishments..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            showAllResults();
+          } else if (e.key === "Escape") {
+            setIsOpen(false);
+          }
+        }}
+        aria-label="Search establishments"
+      />
+
+      {showSuggestions && (
+        <div className="absolute right-0 mt-2 w-[300px] lg:w-[400px] rounded-md border bg-popover text-popover-foreground shadow-md z-50">
+          {results.length > 0 ? (
+            <ul className="py-1">
+              {results.map((establishment) => (
+                <li key={establishment.id}>
+                  <button
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-accent focus:bg-accent focus:outline-none"
+                    onClick={() => openEstablishment(establishment.id)}
+                  >
+                    <HighlightedText
+                      text={establishment.highlights?.name ?? establishment.name}
+                      className="block text-sm font-medium"
+                    />
+                    <span className="block text-xs text-muted-foreground">
+                      {getCategory(establishment.category)?.name ?? establishment.category} · {establishment.location}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            !isSearching && (
+              <p className="px-3 py-2 text-sm text-muted-foreground">No establishments found</p>
+            )
+          )}
+          {total > 0 && (
+            <button
+              type="button"
+              className="w-full border-t px-3 py-2 text-left text-sm text-primary hover:bg-accent"
+              onClick={showAllResults}
+            >
+              See all {total} {total === 1 ? "result" : "results"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,6 +13,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -28,58 +29,189 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { FileUpload } from "@/components/ui/file-upload";
+import CoordinatePicker from "@/components/CoordinatePicker";
+import EstablishmentConflictModal from "@/components/modals/EstablishmentConflictModal";
 import { useEstablishment } from "@/contexts/EstablishmentContext";
-import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { 
-  ESTABLISHMENT_CATEGORIES, 
-  RATING_OPTIONS, 
-  LOCATION_OPTIONS 
-} from "@shared/schema";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { useLocations } from "@/hooks/use-locations";
+import { flattenTree } from "@/lib/tree";
+import { fetchDistricts, EstablishmentConflictError } from "@/lib/adapters";
+import type { FirebaseEstablishment } from "@shared/schema";
 
 // Form schema validation
 const formSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
   category: z.string().min(1, "Please select a category"),
-  location: z.string().min(1, "Please enter a location"),
+  locationId: z.string(),
+  street: z.string().optional(),
+  district: z.string().optional(),
+  city: z.string().trim().min(1, "Please enter a city"),
+  postalCode: z.string().optional(),
+  country: z.string().optional(),
   description: z.string().optional(),
-  rating: z.string().optional(),
+  tags: z.array(z.string()),
+  coordinates: z.object({ latitude: z.number(), longitude: z.number() }).nullable(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+const NO_LOCATION = "none";
+
+// Address parts as the API expects them, with blank parts left out
+function addressOf(data: FormValues) {
+  return {
+    locationId: data.locationId === NO_LOCATION ? null : data.locationId,
+    street: data.street || null,
+    district: data.district || null,
+    city: data.city,
+    postalCode: data.postalCode || null,
+    country: data.country || null,
+  };
+}
+
+// Changes rejected because the establishment moved on from the version they were made to
+interface Conflict {
+  base: FirebaseEstablishment;
+  mine: Partial<FirebaseEstablishment>;
+  theirs: FirebaseEstablishment;
+}
+
 interface AddEstablishmentModalProps {
   isOpen: boolean;
   onClose: () => void;
   onEstablishmentAdded?: () => void;
+  // When set, the modal edits this establishment instead of creating one
+  establishment?: FirebaseEstablishment | null;
+  onEstablishmentUpdated?: () => void;
 }
 
 export default function AddEstablishmentModal({ 
   isOpen, 
   onClose,
   onEstablishmentAdded,
+  establishment,
+  onEstablishmentUpdated,
 }: AddEstablishmentModalProps) {
-  const { addEstablishmentData, uploadFileData } = useEstablishment();
-  const { currentUser } = useAuth();
+  const { addEstablishmentData, updateEstablishmentData, uploadFileData } = useEstablishment();
+  const isEditing = !!establishment;
   const { toast } = useToast();
   const [uploadedImage, setUploadedImage] = useState<File | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { categories, tags } = useTaxonomy();
+  const { locations, getPath } = useLocations();
+  const [districts, setDistricts] = useState<string[]>([]);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       category: "",
-      location: "",
+      locationId: NO_LOCATION,
+      street: "",
+      district: "",
+      city: "",
+      postalCode: "",
+      country: "",
       description: "",
-      rating: "5",
+      tags: [],
+      coordinates: null,
     },
   });
 
+  useEffect(() => {
+    if (isOpen) {
+      fetchDistricts().then(setDistricts);
+    }
+  }, [isOpen]);
+
+  // Load the establishment's current values when editing
+  useEffect(() => {
+    if (isOpen && establishment) {
+      form.reset({
+        name: establishment.name,
+        category: establishment.category,
+        locationId: establishment.locationId ?? NO_LOCATION,
+        street: establishment.street || "",
+        district: establishment.district || "",
+        city: establishment.city || "",
+        postalCode: establishment.postalCode || "",
+        country: establishment.country || "",
+        description: establishment.description || "",
+        tags: establishment.tags,
+        coordinates: establishment.latitude !== null && establishment.longitude !== null
+          ? { latitude: establishment.latitude, longitude: establishment.longitude }
+          : null,
+      });
+    }
+  }, [isOpen, establishment]);
+
+  // Save changes made to the given version of the establishment
+  const saveChanges = async (changes: Partial<FirebaseEstablishment>, base: FirebaseEstablishment) => {
+    if (!establishment) return;
+
+    try {
+      setIsSubmitting(true);
+      const updated = await updateEstablishmentData(establishment.id, changes, base.version);
+
+      if (!updated) {
+        throw new Error("The establishment could not be updated");
+      }
+
+      setConflict(null);
+      onClose();
+      if (onEstablishmentUpdated) {
+        onEstablishmentUpdated();
+      }
+    } catch (error: any) {
+      if (error instanceof EstablishmentConflictError) {
+        setConflict({ base, mine: changes, theirs: error.current });
+        return;
+      }
+      toast({
+        title: "Error updating establishment",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Save changes to an existing establishment
+  const onUpdate = (data: FormValues) => {
+    if (!establishment) return;
+
+    return saveChanges({
+      name: data.name,
+      category: data.category,
+      ...addressOf(data),
+      description: data.description || "",
+      tags: data.tags,
+      latitude: data.coordinates?.latitude ?? null,
+      longitude: data.coordinates?.longitude ?? null,
+    }, establishment);
+  };
+
+  // Start over from the establishment as it is now
+  const discardChanges = () => {
+    setConflict(null);
+    onClose();
+    if (onEstablishmentUpdated) {
+      onEstablishmentUpdated();
+    }
+  };
+
   // Handle form submission
   const onSubmit = async (data: FormValues) => {
+    if (isEditing) {
+      return onUpdate(data);
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -87,25 +219,24 @@ export default function AddEstablishmentModal({
       const establishment = await addEstablishmentData({
         name: data.name,
         category: data.category,
-        location: data.location,
+        ...addressOf(data),
         description: data.description || "",
-        rating: data.rating || "5",
+        tags: data.tags,
+        latitude: data.coordinates?.latitude ?? null,
+        longitude: data.coordinates?.longitude ?? null,
         // userId will be handled by the server
       });
 
-      // Get user ID for uploads, defaulting to "1" if not logged in
-      const userId = currentUser?.uid || "1";
-      
       // Upload cover image if provided
       if (uploadedImage) {
         // Upload and update establishment with cover image
-        await uploadFileData(uploadedImage, establishment.id, userId);
+        await uploadFileData(uploadedImage, establishment.id);
       }
 
       // Upload additional files
       if (uploadedFiles.length > 0) {
         const uploadPromises = uploadedFiles.map((file) => 
-          uploadFileData(file, establishment.id, userId)
+          uploadFileData(file, establishment.id)
         );
         await Promise.all(uploadPromises);
       }
@@ -156,9 +287,13 @@ export default function AddEstablishmentModal({
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-semibold">Add New Establishment</DialogTitle>
+          <DialogTitle className="text-2xl font-semibold">
+            {isEditing ? "Edit Establishment" : "Add New Establishment"}
+          </DialogTitle>
           <DialogDescription>
-            Fill in the details to add a new establishment to the directory.
+            {isEditing
+              ? "Update the details of this establishment."
+              : "Fill in the details to add a new establishment to the directory."}
           </DialogDescription>
         </DialogHeader>
 
@@ -178,27 +313,126 @@ export default function AddEstablishmentModal({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {flattenTree(categories).map(({ node: term, depth }) => (
+                        <SelectItem key={term.slug} value={term.slug} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {term.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {tags.length > 0 && (
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {tags.map((tag) => (
+                        <label key={tag.slug} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(tag.slug)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked === true
+                                ? [...field.value, tag.slug]
+                                : field.value.filter((slug) => slug !== tag.slug))
+                            }
+                          />
+                          {tag.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="locationId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      // The location names the city and district; the server does the same
+                      const path = getPath(value === NO_LOCATION ? null : value);
+                      if (path.length > 0) {
+                        form.setValue("city", path[0].name);
+                        form.setValue("district", path.find((location) => location.kind === "district")?.name ?? "");
+                      }
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_LOCATION}>Not filed under a location</SelectItem>
+                      {flattenTree(locations).map(({ node: location, depth }) => (
+                        <SelectItem key={location.id} value={String(location.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Sets the city and district below</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="street"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Street address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., 123 Main St" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="category"
+                name="district"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Category *</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {ESTABLISHMENT_CATEGORIES.map((category) => (
-                          <SelectItem key={category} value={category}>
-                            {category}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>District</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Downtown" list="district-options" {...field} />
+                    </FormControl>
+                    <datalist id="district-options">
+                      {districts.map((district) => (
+                        <option key={district} value={district} />
+                      ))}
+                    </datalist>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -206,24 +440,41 @@ export default function AddEstablishmentModal({
 
               <FormField
                 control={form.control}
-                name="rating"
+                name="city"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Rating</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select rating" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {RATING_OPTIONS.map((rating) => (
-                          <SelectItem key={rating} value={rating}>
-                            {rating} stars
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>City *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter city" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="postalCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postal code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter postal code" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="country"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Country</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., US or United States" {...field} />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -232,12 +483,12 @@ export default function AddEstablishmentModal({
 
             <FormField
               control={form.control}
-              name="location"
+              name="description"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Location *</FormLabel>
+                  <FormLabel>Description</FormLabel>
                   <FormControl>
-                    <Input placeholder="Enter location (e.g., Downtown, 123 Main St)" {...field} />
+                    <Textarea placeholder="Enter establishment description" className="resize-none" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -246,70 +497,75 @@ export default function AddEstablishmentModal({
 
             <FormField
               control={form.control}
-              name="description"
+              name="coordinates"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Description</FormLabel>
-                  <FormControl>
-                    <Textarea placeholder="Enter establishment description" className="resize-none" {...field} />
-                  </FormControl>
+                  <FormLabel>Coordinates</FormLabel>
+                  <CoordinatePicker value={field.value} onChange={field.onChange} />
+                  <FormDescription>
+                    Leave empty to look them up from the address.
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
-            <div>
-              <FormLabel className="block mb-2">Cover Image</FormLabel>
-              <FileUpload
-                onFileSelect={handleCoverImageUpload}
-                accept="image/*"
-                maxFileSize={5242880} // 5MB
-                description="PNG, JPG, GIF up to 5MB"
-                icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>}
-              />
-              {uploadedImage && (
-                <div className="mt-2 bg-muted/50 p-2 rounded-md flex items-center justify-between">
-                  <span className="text-sm truncate">{uploadedImage.name}</span>
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    onClick={() => setUploadedImage(null)}
-                    type="button"
-                  >
-                    Remove
-                  </Button>
-                </div>
-              )}
-            </div>
-
-            <div>
-              <FormLabel className="block mb-2">Documents</FormLabel>
-              <FileUpload
-                onFileSelect={handleDocumentUpload}
-                accept=".pdf,.doc,.docx,.xls,.xlsx,.zip"
-                maxFileSize={25 * 1024 * 1024} // 25MB
-                description="PDF, DOCX, XLSX, ZIP up to 25MB each"
-                multiple={true}
-                icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/></svg>}
-              />
-              {uploadedFiles.length > 0 && (
-                <div className="mt-2 space-y-2">
-                  {uploadedFiles.map((file, index) => (
-                    <div key={index} className="bg-muted/50 p-2 rounded-md flex items-center justify-between">
-                      <span className="text-sm truncate">{file.name}</span>
+            {!isEditing && (
+              <>
+                <div>
+                  <FormLabel className="block mb-2">Cover Image</FormLabel>
+                  <FileUpload
+                    onFileSelect={handleCoverImageUpload}
+                    accept="image/*"
+                    maxFileSize={5242880} // 5MB
+                    description="PNG, JPG, GIF up to 5MB"
+                    icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>}
+                  />
+                  {uploadedImage && (
+                    <div className="mt-2 bg-muted/50 p-2 rounded-md flex items-center justify-between">
+                      <span className="text-sm truncate">{uploadedImage.name}</span>
                       <Button 
                         variant="ghost" 
                         size="sm" 
-                        onClick={() => removeDocument(index)}
+                        onClick={() => setUploadedImage(null)}
                         type="button"
                       >
                         Remove
                       </Button>
                     </div>
-                  ))}
+                  )}
                 </div>
-              )}
-            </div>
+
+                <div>
+                  <FormLabel className="block mb-2">Documents</FormLabel>
+                  <FileUpload
+                    onFileSelect={handleDocumentUpload}
+                    accept=".pdf,.doc,.docx,.xls,.xlsx,.zip"
+                    maxFileSize={25 * 1024 * 1024} // 25MB
+                    description="PDF, DOCX, XLSX, ZIP up to 25MB each"
+                    multiple={true}
+                    icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/></svg>}
+                  />
+                  {uploadedFiles.length > 0 && (
+                    <div className="mt-2 space-y-2">
+                      {uploadedFiles.map((file, index) => (
+                        <div key={index} className="bg-muted/50 p-2 rounded-md flex items-center justify-between">
+                          <span className="text-sm truncate">{file.name}</span>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => removeDocument(index)}
+                            type="button"
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
 
             <DialogFooter>
               <Button 
@@ -321,12 +577,25 @@ export default function AddEstablishmentModal({
                 Cancel
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Saving..." : "Save Establishment"}
+                {isSubmitting ? "Saving..." : isEditing ? "Save Changes" : "Save Establishment"}
               </Button>
             </DialogFooter>
           </form>
         </Form>
       </DialogContent>
+
+      {conflict && (
+        <EstablishmentConflictModal
+          isOpen={true}
+          base={conflict.base}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          isSaving={isSubmitting}
+          // A second conflict is merged against what this one showed as theirs
+          onSave={(merged) => saveChanges(merged, conflict.theirs)}
+          onDiscard={discardChanges}
+        />
+      )}
     </Dialog>
   );
 }
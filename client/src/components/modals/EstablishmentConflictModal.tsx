@@ -0,0 +1,136 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useFieldFormat } from "@/hooks/use-field-format";
+import type { FirebaseEstablishment } from "@shared/schema";
+
+type Changes = Partial<FirebaseEstablishment>;
+type Choice = "mine" | "theirs";
+
+// Blank and missing values are the same to the server, and tags are a set
+function normalize(value: unknown): string {
+  if (value === undefined || value === "") return "null";
+  if (Array.isArray(value)) return JSON.stringify([...value].sort());
+  return JSON.stringify(value);
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b);
+}
+
+// The fields both sides changed since the base, to different values
+function conflictingFields(base: FirebaseEstablishment, mine: Changes, theirs: FirebaseEstablishment): (keyof Changes)[] {
+  return (Object.keys(mine) as (keyof Changes)[]).filter((field) =>
+    !isSame(mine[field], base[field]) &&
+    !isSame(theirs[field], base[field]) &&
+    !isSame(mine[field], theirs[field])
+  );
+}
+
+// Set one field of a change set, keeping the value's type tied to the field
+function setField<K extends keyof Changes>(changes: Changes, field: K, value: Changes[K]): void {
+  changes[field] = value;
+}
+
+// Three-way merge: their value where only they (or nobody) changed a field, mine where only I did,
+// and the chosen side where both did
+function mergeChanges(
+  base: FirebaseEstablishment,
+  mine: Changes,
+  theirs: FirebaseEstablishment,
+  choices: Partial<Record<keyof Changes, Choice>>
+): Changes {
+  const merged: Changes = {};
+  for (const field of Object.keys(mine) as (keyof Changes)[]) {
+    const keepMine = isSame(theirs[field], base[field]) ? !isSame(mine[field], base[field]) : choices[field] !== "theirs";
+    setField(merged, field, keepMine ? mine[field] : theirs[field]);
+  }
+  return merged;
+}
+
+interface EstablishmentConflictModalProps {
+  isOpen: boolean;
+  // The establishment as it was when editing started
+  base: FirebaseEstablishment;
+  // The changes that were rejected
+  mine: Changes;
+  // The establishment as it is now
+  theirs: FirebaseEstablishment;
+  isSaving: boolean;
+  onSave: (merged: Changes) => void;
+  onDiscard: () => void;
+}
+
+export default function EstablishmentConflictModal({
+  isOpen,
+  base,
+  mine,
+  theirs,
+  isSaving,
+  onSave,
+  onDiscard,
+}: EstablishmentConflictModalProps) {
+  const { formatLabel, formatValue } = useFieldFormat();
+  const conflicts = conflictingFields(base, mine, theirs);
+  const [choices, setChoices] = useState<Partial<Record<keyof Changes, Choice>>>({});
+
+  // My values are kept unless told otherwise, starting over for each new conflict
+  useEffect(() => {
+    if (isOpen) {
+      setChoices({});
+    }
+  }, [isOpen, theirs]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Someone else changed this establishment</DialogTitle>
+          <DialogDescription>
+            {conflicts.length > 0
+              ? "Their changes to other fields are kept. Choose which value to keep where you both changed the same field."
+              : "They changed different fields than you did, so saving keeps both sets of changes."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflicts.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label>{formatLabel(field)}</Label>
+              <RadioGroup
+                value={choices[field] ?? "mine"}
+                onValueChange={(value) => setChoices((current) => ({ ...current, [field]: value as Choice }))}
+              >
+                {(["mine", "theirs"] as const).map((side) => (
+                  <label key={side} className="flex items-start gap-2 text-sm">
+                    <RadioGroupItem value={side} className="mt-0.5" />
+                    <span className="w-12 shrink-0 text-muted-foreground">{side === "mine" ? "Yours" : "Theirs"}</span>
+                    <span className="break-words">{formatValue(field, side === "mine" ? mine[field] : theirs[field])}</span>
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard} disabled={isSaving}>
+            Discard my changes
+          </Button>
+          <Button onClick={() => onSave(mergeChanges(base, mine, theirs, choices))} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
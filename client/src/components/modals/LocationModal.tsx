@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { flattenTree, pathTo } from "@/lib/tree";
+import { createLocation, updateLocation } from "@/lib/adapters";
+import {
+  LOCATION_KINDS,
+  insertLocationSchema,
+  type InsertLocation,
+  type Location,
+  type LocationKind,
+} from "@shared/schema";
+
+interface LocationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The whole tree, to pick a parent from
+  locations: Location[];
+  // When set, the modal edits this location instead of creating one
+  location?: Location | null;
+  // Preset for a new location, e.g. when adding a district to a city
+  parent?: Location | null;
+  onSaved: (location: Location) => void;
+}
+
+// The level a location sits under, or undefined for cities
+function parentKindOf(kind: LocationKind): LocationKind | undefined {
+  return LOCATION_KINDS[LOCATION_KINDS.indexOf(kind) - 1];
+}
+
+export default function LocationModal({ isOpen, onClose, locations, location, parent, onSaved }: LocationModalProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<InsertLocation>({ name: "", kind: "city", parentId: null });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(location
+        ? { name: location.name, kind: location.kind, parentId: location.parentId }
+        : parent
+          ? { name: "", kind: LOCATION_KINDS[LOCATION_KINDS.indexOf(parent.kind) + 1] ?? parent.kind, parentId: parent.id }
+          : { name: "", kind: "city", parentId: null });
+    }
+  }, [isOpen, location, parent]);
+
+  const parentKind = parentKindOf(draft.kind);
+  const parentOptions = parentKind
+    ? flattenTree(locations).filter(({ node }) => node.kind === parentKind)
+    : [];
+
+  const handleSave = async () => {
+    const result = insertLocationSchema.safeParse(draft);
+    if (!result.success) {
+      toast({
+        title: "Check the location",
+        description: result.error.errors[0]?.message || "The location is not valid",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      onSaved(location ? await updateLocation(location.id, result.data) : await createLocation(result.data));
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: "Error saving location",
+        description: error.message || "There was an error saving the location",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{location ? "Edit location" : "New location"}</DialogTitle>
+          <DialogDescription>
+            Cities contain districts, and districts contain neighbourhoods.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="location-name">Name</Label>
+            <Input
+              id="location-name"
+              value={draft.name}
+              maxLength={100}
+              onChange={(e) => setDraft((current) => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Level</Label>
+            <Select
+              value={draft.kind}
+              onValueChange={(kind) => setDraft((current) => ({ ...current, kind: kind as LocationKind, parentId: null }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCATION_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {kind.charAt(0).toUpperCase() + kind.slice(1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {parentKind && (
+            <div className="space-y-2">
+              <Label>In {parentKind}</Label>
+              <Select
+                value={draft.parentId ? String(draft.parentId) : ""}
+                onValueChange={(value) => setDraft((current) => ({ ...current, parentId: Number(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${parentKind}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {parentOptions.map(({ node }) => (
+                    <SelectItem key={node.id} value={String(node.id)}>
+                      {pathTo(locations, node.id).map((ancestor) => ancestor.name).join(" › ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
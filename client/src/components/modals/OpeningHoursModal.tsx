@@ -0,0 +1,277 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { saveSchedule, EstablishmentConflictError } from "@/lib/adapters";
+import { DAY_NAMES, isValidTimeZone } from "@shared/hours";
+import { scheduleInputSchema, type EstablishmentSchedule, type ScheduleInput } from "@shared/schema";
+
+// Monday first, as most opening hours are written
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
+
+interface OpeningHoursModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  establishmentId: string;
+  // The version of the establishment the schedule was loaded with
+  version: number;
+  schedule: EstablishmentSchedule;
+  onSaved: (schedule: EstablishmentSchedule) => void;
+  // Someone else changed the establishment since it was loaded, so nothing was saved
+  onConflict: () => void;
+}
+
+export default function OpeningHoursModal({
+  isOpen,
+  onClose,
+  establishmentId,
+  version,
+  schedule,
+  onSaved,
+  onConflict,
+}: OpeningHoursModalProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ScheduleInput>(schedule);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved schedule each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(schedule);
+    }
+  }, [isOpen, schedule]);
+
+  const addShift = (dayOfWeek: number) => {
+    setDraft((current) => ({
+      ...current,
+      hours: [...current.hours, { dayOfWeek, opensAt: "09:00", closesAt: "17:00" }],
+    }));
+  };
+
+  const updateShift = (index: number, changes: Partial<ScheduleInput["hours"][number]>) => {
+    setDraft((current) => ({
+      ...current,
+      hours: current.hours.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)),
+    }));
+  };
+
+  const removeShift = (index: number) => {
+    setDraft((current) => ({ ...current, hours: current.hours.filter((_, i) => i !== index) }));
+  };
+
+  const addException = () => {
+    setDraft((current) => ({
+      ...current,
+      exceptions: [...current.exceptions, { date: new Date().toISOString().slice(0, 10), opensAt: null, closesAt: null, label: "" }],
+    }));
+  };
+
+  const updateException = (index: number, changes: Partial<ScheduleInput["exceptions"][number]>) => {
+    setDraft((current) => ({
+      ...current,
+      exceptions: current.exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)),
+    }));
+  };
+
+  const removeException = (index: number) => {
+    setDraft((current) => ({ ...current, exceptions: current.exceptions.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    const result = scheduleInputSchema.safeParse(draft);
+    if (!result.success) {
+      toast({
+        title: "Check the opening hours",
+        description: result.error.errors[0]?.message || "Some hours are not valid",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      onSaved(await saveSchedule(establishmentId, result.data, version));
+      onClose();
+    } catch (error: any) {
+      if (error instanceof EstablishmentConflictError) {
+        toast({
+          title: "Not saved",
+          description: "Someone else changed this establishment. Review their opening hours and save yours again.",
+          variant: "destructive",
+        });
+        onConflict();
+        return;
+      }
+      toast({
+        title: "Error saving opening hours",
+        description: error.message || "There was an error saving the opening hours",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Opening hours</DialogTitle>
+          <DialogDescription>
+            Add several shifts to a day for split hours. A shift that closes before it opens runs past midnight.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="timezone">Time zone</Label>
+          <Input
+            id="timezone"
+            list="timezone-options"
+            value={draft.timezone}
+            onChange={(e) => setDraft((current) => ({ ...current, timezone: e.target.value }))}
+          />
+          <datalist id="timezone-options">
+            {TIME_ZONES.map((timeZone) => (
+              <option key={timeZone} value={timeZone} />
+            ))}
+          </datalist>
+          {!isValidTimeZone(draft.timezone) && (
+            <p className="text-sm font-medium text-destructive">Choose a time zone such as Europe/Paris</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          {WEEK_ORDER.map((dayOfWeek) => (
+            <div key={dayOfWeek} className="flex flex-col sm:flex-row sm:items-start gap-2">
+              <span className="w-28 pt-2 text-sm font-medium">{DAY_NAMES[dayOfWeek]}</span>
+              <div className="flex-1 space-y-2">
+                {draft.hours.map((shift, index) =>
+                  shift.dayOfWeek === dayOfWeek ? (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={shift.opensAt}
+                        onChange={(e) => updateShift(index, { opensAt: e.target.value })}
+                        aria-label={`${DAY_NAMES[dayOfWeek]} opens at`}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={shift.closesAt}
+                        onChange={(e) => updateShift(index, { closesAt: e.target.value })}
+                        aria-label={`${DAY_NAMES[dayOfWeek]} closes at`}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => removeShift(index)} aria-label="Remove shift">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : null
+                )}
+                {!draft.hours.some((shift) => shift.dayOfWeek === dayOfWeek) && (
+                  <p className="pt-2 text-sm text-muted-foreground">Closed</p>
+                )}
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => addShift(dayOfWeek)}>
+                <Plus className="mr-1 h-4 w-4" /> Shift
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Holidays and special dates</h3>
+            <Button type="button" variant="outline" size="sm" onClick={addException}>
+              <Plus className="mr-1 h-4 w-4" /> Date
+            </Button>
+          </div>
+          {draft.exceptions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No special dates.</p>
+          )}
+          {draft.exceptions.map((exception, index) => {
+            const isClosed = exception.opensAt === null;
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  className="w-auto"
+                  value={exception.date}
+                  onChange={(e) => updateException(index, { date: e.target.value })}
+                  aria-label="Date"
+                />
+                <Input
+                  className="w-40"
+                  placeholder="Label, e.g. Christmas"
+                  value={exception.label ?? ""}
+                  onChange={(e) => updateException(index, { label: e.target.value })}
+                  maxLength={100}
+                  aria-label="Label"
+                />
+                <label className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={isClosed}
+                    onCheckedChange={(checked) =>
+                      updateException(index, checked === true
+                        ? { opensAt: null, closesAt: null }
+                        : { opensAt: "09:00", closesAt: "17:00" })
+                    }
+                  />
+                  Closed
+                </label>
+                {!isClosed && (
+                  <>
+                    <Input
+                      type="time"
+                      className="w-auto"
+                      value={exception.opensAt ?? ""}
+                      onChange={(e) => updateException(index, { opensAt: e.target.value })}
+                      aria-label="Opens at"
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-auto"
+                      value={exception.closesAt ?? ""}
+                      onChange={(e) => updateException(index, { closesAt: e.target.value })}
+                      aria-label="Closes at"
+                    />
+                  </>
+                )}
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeException(index)} aria-label="Remove date">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save hours"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
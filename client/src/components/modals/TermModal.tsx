@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import TermBadge from "@/components/TermBadge";
+import { useToast } from "@/hooks/use-toast";
+import { flattenTree } from "@/lib/tree";
+import { createTerm, updateTerm } from "@/lib/adapters";
+import {
+  DEFAULT_TERM_COLOR,
+  insertCategorySchema,
+  slugify,
+  type InsertCategory,
+  type TaxonomyKind,
+  type TaxonomyTerm,
+} from "@shared/schema";
+
+const NO_PARENT = "none";
+
+interface TermModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: TaxonomyKind;
+  // All terms of this kind, to pick a parent from
+  terms: TaxonomyTerm[];
+  // When set, the modal edits this term instead of creating one
+  term?: TaxonomyTerm | null;
+  onSaved: (term: TaxonomyTerm) => void;
+}
+
+export default function TermModal({ isOpen, onClose, kind, terms, term, onSaved }: TermModalProps) {
+  const { toast } = useToast();
+  const label = kind === "categories" ? "category" : "tag";
+  const [draft, setDraft] = useState<InsertCategory>({ name: "", slug: "" });
+  // The slug follows the name until it is edited by hand
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(term
+        ? { name: term.name, slug: term.slug, color: term.color, icon: term.icon, parentId: term.parentId }
+        : { name: "", slug: "", color: DEFAULT_TERM_COLOR, icon: null, parentId: null });
+      setSlugEdited(!!term);
+    }
+  }, [isOpen, term]);
+
+  // A term cannot be nested under itself or anything below it
+  const excluded = new Set<number>();
+  if (term) {
+    excluded.add(term.id);
+    flattenTree(terms, term.id).forEach(({ node: child }) => excluded.add(child.id));
+  }
+  const parentOptions = flattenTree(terms).filter(({ node: option }) => !excluded.has(option.id));
+
+  const handleSave = async () => {
+    const result = insertCategorySchema.safeParse(draft);
+    if (!result.success) {
+      toast({
+        title: `Check the ${label}`,
+        description: result.error.errors[0]?.message || `The ${label} is not valid`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      onSaved(term ? await updateTerm(kind, term.id, result.data) : await createTerm(kind, result.data));
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: `Error saving ${label}`,
+        description: error.message || `There was an error saving the ${label}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{term ? `Edit ${label}` : `New ${label}`}</DialogTitle>
+          <DialogDescription>
+            {kind === "categories"
+              ? "Each establishment has one category. Renaming a slug updates the establishments that use it."
+              : "Establishments can have any number of tags."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="term-name">Name</Label>
+            <Input
+              id="term-name"
+              value={draft.name}
+              maxLength={60}
+              onChange={(e) => {
+                const name = e.target.value;
+                setDraft((current) => ({ ...current, name, slug: slugEdited ? current.slug : slugify(name) }));
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="term-slug">Slug</Label>
+            <Input
+              id="term-slug"
+              value={draft.slug}
+              maxLength={60}
+              onChange={(e) => {
+                setSlugEdited(true);
+                setDraft((current) => ({ ...current, slug: e.target.value }));
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="term-color">Colour</Label>
+              <Input
+                id="term-color"
+                type="color"
+                value={draft.color ?? DEFAULT_TERM_COLOR}
+                onChange={(e) => setDraft((current) => ({ ...current, color: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="term-icon">Icon</Label>
+              <Input
+                id="term-icon"
+                placeholder="e.g. utensils"
+                value={draft.icon ?? ""}
+                onChange={(e) => setDraft((current) => ({ ...current, icon: e.target.value || null }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Parent</Label>
+            <Select
+              value={draft.parentId ? String(draft.parentId) : NO_PARENT}
+              onValueChange={(value) => setDraft((current) => ({ ...current, parentId: value === NO_PARENT ? null : Number(value) }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                {parentOptions.map(({ node: option, depth }) => (
+                  <SelectItem key={option.id} value={String(option.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Preview:
+            <TermBadge
+              term={{ id: 0, createdAt: null, parentId: null, ...draft, color: draft.color ?? DEFAULT_TERM_COLOR, icon: draft.icon ?? null }}
+              slug={draft.slug}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
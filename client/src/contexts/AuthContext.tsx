@@ -2,12 +2,18 @@ import { createContext, useContext, useState, useEffect, ReactNode } from "react
 import { onAuthStateChanged, User } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { signIn, registerUser, signOut } from "@/lib/auth";
+import { fetchCurrentUser } from "@/lib/adapters";
 import { useToast } from "@/hooks/use-toast";
+import { can as roleCan, type PermissionAction } from "@shared/permissions";
+import type { PublicUser } from "@shared/schema";
 
 // Define the auth context type
 interface AuthContextType {
   currentUser: User | null;
+  // The API's users row (with role) for the signed-in user
+  profile: PublicUser | null;
   loading: boolean;
+  can: (action: PermissionAction, ownerId?: number) => boolean;
   signIn: (email: string, password: string) => Promise<User>;
   signUp: (email: string, password: string, displayName?: string) => Promise<User>;
   logout: () => Promise<boolean>;
@@ -16,7 +22,9 @@ interface AuthContextType {
 // Create context with default values
 const AuthContext = createContext<AuthContextType>({
   currentUser: null,
+  profile: null,
   loading: true,
+  can: () => false,
   signIn: () => Promise.reject("AuthContext not initialized"),
   signUp: () => Promise.reject("AuthContext not initialized"),
   logout: () => Promise.reject("AuthContext not initialized"),
@@ -28,13 +36,15 @@ export const useAuth = () => useContext(AuthContext);
 // Provider component
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<PublicUser | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
   // Listen for auth state changes when the provider mounts
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setCurrentUser(user);
+      setProfile(user ? await fetchCurrentUser() : null);
       setLoading(false);
     });
 
@@ -99,10 +109,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Check the signed-in user's role against the shared permission matrix
+  const can = (action: PermissionAction, ownerId?: number) => roleCan(profile, action, ownerId);
+
   // Context value
   const value = {
     currentUser,
+    profile,
     loading,
+    can,
     signIn: handleSignIn,
     signUp: handleSignUp,
     logout: handleLogout,
@@ -6,17 +6,16 @@ import {
   updateEstablishment,
   deleteEstablishment,
   fetchAttachments,
-  createAttachment,
-  deleteAttachment
+  uploadAttachment,
+  deleteAttachment,
+  EstablishmentConflictError,
+  type EstablishmentListFilters
 } from "@/lib/adapters";
-import { 
-  uploadFile, 
-  deleteFile 
-} from "@/lib/storage";
 import { useToast } from "@/hooks/use-toast";
 import type { 
   FirebaseEstablishment, 
-  FirebaseAttachment 
+  FirebaseAttachment,
+  Paginated
 } from "@shared/schema";
 
 // Define the context type
@@ -24,18 +23,18 @@ interface EstablishmentContextType {
   // Establishment CRUD
   addEstablishmentData: (data: Partial<Omit<FirebaseEstablishment, "id" | "createdAt">>) => Promise<FirebaseEstablishment>;
   getEstablishmentsData: (
-    filters?: { category?: string; location?: string; rating?: string },
-    sortBy?: string
-  ) => Promise<FirebaseEstablishment[]>;
+    filters?: EstablishmentListFilters,
+    sortBy?: string,
+    page?: { limit?: number; cursor?: string }
+  ) => Promise<Paginated<FirebaseEstablishment>>;
   getEstablishmentData: (id: string) => Promise<FirebaseEstablishment | null>;
-  updateEstablishmentData: (id: string, data: Partial<FirebaseEstablishment>) => Promise<boolean>;
-  deleteEstablishmentData: (id: string) => Promise<boolean>;
+  updateEstablishmentData: (id: string, data: Partial<FirebaseEstablishment>, version: number) => Promise<boolean>;
+  deleteEstablishmentData: (id: string, version: number) => Promise<boolean>;
   
   // File operations
   uploadFileData: (
     file: File,
     establishmentId: string,
-    userId: string,
     onProgress?: (progress: number) => void
   ) => Promise<FirebaseAttachment>;
   getAttachmentsData: (establishmentId: string) => Promise<FirebaseAttachment[]>;
@@ -91,12 +90,13 @@ export const EstablishmentProvider = ({ children }: { children: ReactNode }) =>
   };
 
   const getEstablishmentsData = async (
-    filters?: { category?: string; location?: string; rating?: string },
-    sortBy?: string
+    filters?: EstablishmentListFilters,
+    sortBy?: string,
+    page?: { limit?: number; cursor?: string }
   ) => {
     try {
       setLoading(true);
-      return await fetchEstablishments(filters, sortBy);
+      return await fetchEstablishments(filters, sortBy, page);
     } catch (error: any) {
       toast({
         title: "Error Loading Establishments",
@@ -125,16 +125,18 @@ export const EstablishmentProvider = ({ children }: { children: ReactNode }) =>
     }
   };
 
-  const updateEstablishmentData = async (id: string, data: Partial<FirebaseEstablishment>) => {
+  const updateEstablishmentData = async (id: string, data: Partial<FirebaseEstablishment>, version: number) => {
     try {
       setLoading(true);
-      const result = await updateEstablishment(id, data);
+      const result = await updateEstablishment(id, data, version);
       toast({
         title: "Establishment Updated",
         description: "The establishment has been updated successfully.",
       });
       return result;
     } catch (error: any) {
+      // Conflicts are resolved by the caller rather than reported
+      if (error instanceof EstablishmentConflictError) throw error;
       toast({
         title: "Error Updating Establishment",
         description: error.message,
@@ -146,16 +148,17 @@ export const EstablishmentProvider = ({ children }: { children: ReactNode }) =>
     }
   };
 
-  const deleteEstablishmentData = async (id: string) => {
+  const deleteEstablishmentData = async (id: string, version: number) => {
     try {
       setLoading(true);
-      const result = await deleteEstablishment(id);
+      const result = await deleteEstablishment(id, version);
       toast({
         title: "Establishment Deleted",
         description: "The establishment has been deleted successfully.",
       });
       return result;
     } catch (error: any) {
+      if (error instanceof EstablishmentConflictError) throw error;
       toast({
         title: "Error Deleting Establishment",
         description: error.message,
@@ -171,11 +174,11 @@ export const EstablishmentProvider = ({ children }: { children: ReactNode }) =>
   const uploadFileData = async (
     file: File,
     establishmentId: string,
-    userId: string,
     onProgress?: (progress: number) => void
   ) => {
     try {
-      const result = await uploadFile(file, establishmentId, userId, onProgress);
+      // The server stores the file and records the attachment in one step
+      const result = await uploadAttachment(establishmentId, file, onProgress);
       toast({
         title: "File Uploaded",
         description: "The file has been uploaded successfully.",
@@ -0,0 +1,46 @@
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { useLocations } from "@/hooks/use-locations";
+
+// Labels for the establishment and attachment fields; others show their column name
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  category: "Category",
+  tags: "Tags",
+  description: "Description",
+  street: "Street",
+  district: "District",
+  city: "City",
+  postalCode: "Postal code",
+  country: "Country",
+  locationId: "Location",
+  coverImage: "Cover image",
+  latitude: "Latitude",
+  longitude: "Longitude",
+  timezone: "Time zone",
+  userId: "Owner",
+  fileName: "File name",
+  fileType: "File type",
+  fileSize: "File size",
+};
+
+// Show field names, and slugs and ids by the names people know them by
+export function useFieldFormat() {
+  const { getCategory, getTag } = useTaxonomy();
+  const { getPath } = useLocations();
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value == null || value === "" || (Array.isArray(value) && value.length === 0)) return "—";
+    if (field === "category") return getCategory(String(value))?.name ?? String(value);
+    if (field === "tags" && Array.isArray(value)) return value.map((slug) => getTag(String(slug))?.name ?? slug).join(", ");
+    if (field === "locationId") {
+      const path = getPath(Number(value));
+      return path.length > 0 ? path.map((location) => location.name).join(" › ") : `#${value}`;
+    }
+    return String(value);
+  };
+
+  return {
+    formatLabel: (field: string) => FIELD_LABELS[field] ?? field,
+    formatValue,
+  };
+}
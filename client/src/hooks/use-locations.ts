@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { fetchLocations } from "@/lib/adapters";
+import { pathTo } from "@/lib/tree";
+import type { Location } from "@shared/schema";
+
+// Shared by every component on the page, so the tree is fetched once
+let cached: Promise<Location[]> | null = null;
+
+// Fetch the tree again on next use, after an admin has changed it
+export function invalidateLocations() {
+  cached = null;
+}
+
+// The location tree, with a lookup of each location's breadcrumb path
+export function useLocations() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+    if (!cached) {
+      cached = fetchLocations();
+    }
+    cached.then((loaded) => {
+      if (isCurrent) {
+        setLocations(loaded);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  return {
+    locations,
+    isLoading,
+    getPath: (id: number | string | null | undefined) => (id == null ? [] : pathTo(locations, Number(id))),
+  };
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { fetchTerms } from "@/lib/adapters";
+import type { TaxonomyTerm } from "@shared/schema";
+
+type Taxonomy = {
+  categories: TaxonomyTerm[];
+  tags: TaxonomyTerm[];
+};
+
+// Shared by every component on the page, so the terms are fetched once
+let cached: Promise<Taxonomy> | null = null;
+
+function loadTaxonomy(): Promise<Taxonomy> {
+  if (!cached) {
+    cached = Promise.all([fetchTerms("categories"), fetchTerms("tags")])
+      .then(([categories, tags]) => ({ categories, tags }));
+  }
+  return cached;
+}
+
+// Fetch the terms again on next use, after an admin has changed them
+export function invalidateTaxonomy() {
+  cached = null;
+}
+
+// The admin-managed categories and tags, with lookups by slug
+export function useTaxonomy() {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ categories: [], tags: [] });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+    loadTaxonomy().then((loaded) => {
+      if (isCurrent) {
+        setTaxonomy(loaded);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  return {
+    ...taxonomy,
+    isLoading,
+    getCategory: (slug: string) => taxonomy.categories.find((category) => category.slug === slug),
+    getTag: (slug: string) => taxonomy.tags.find((tag) => tag.slug === slug),
+  };
+}
+
@@ -1,32 +1,73 @@
 import { 
-  Establishment, 
-  Attachment, 
   FirebaseEstablishment, 
-  FirebaseAttachment 
+  FirebaseAttachment,
+  PublicUser,
+  UserRole,
+  Paginated,
+  Review,
+  ReviewInput,
+  ReviewWithAuthor,
+  EstablishmentSchedule,
+  ScheduleInput,
+  TaxonomyKind,
+  TaxonomyTerm,
+  InsertCategory,
+  Location,
+  InsertLocation,
+  AuditEntryWithActor,
+  WithPermissions,
+  ImportMapping,
+  ImportReport,
+  ExportFormat,
+  versionETag
 } from "@shared/schema";
-import { apiRequest, getQueryFn } from "./queryClient";
+import { contract, type ApiRequest, type ApiResponse } from "@shared/api";
+import { ApiError } from "./queryClient";
+import { api, apiUrl, sendForm } from "./api";
 
 /**
  * Adapters to convert between Firebase and PostgreSQL data models
  */
 
 // Convert PostgreSQL Establishment to Firebase format
-export function toFirebaseEstablishment(dbEstablishment: Establishment): FirebaseEstablishment {
+export function toFirebaseEstablishment(
+  dbEstablishment: ApiResponse<typeof contract.establishments.list>["items"][number]
+    & Partial<Pick<ApiResponse<typeof contract.establishments.get>, "locationPath">>
+): FirebaseEstablishment {
   return {
     id: dbEstablishment.id.toString(),
     name: dbEstablishment.name,
     category: dbEstablishment.category,
     location: dbEstablishment.location,
+    street: dbEstablishment.street,
+    district: dbEstablishment.district,
+    city: dbEstablishment.city,
+    postalCode: dbEstablishment.postalCode,
+    country: dbEstablishment.country,
+    locationId: dbEstablishment.locationId?.toString() ?? null,
+    locationPath: dbEstablishment.locationPath,
     description: dbEstablishment.description || undefined,
-    rating: dbEstablishment.rating || "5",
+    rating: dbEstablishment.rating,
+    reviewCount: dbEstablishment.reviewCount,
     coverImage: dbEstablishment.coverImage || undefined,
+    latitude: dbEstablishment.latitude,
+    longitude: dbEstablishment.longitude,
+    timezone: dbEstablishment.timezone,
     userId: dbEstablishment.userId.toString(),
     createdAt: dbEstablishment.createdAt || new Date(),
+    version: dbEstablishment.version,
+    permissions: dbEstablishment.permissions,
+    highlights: dbEstablishment.highlights,
+    distanceKm: dbEstablishment.distanceKm,
+    schedule: dbEstablishment.schedule,
+    tags: dbEstablishment.tags ?? [],
   };
 }
 
 // Convert PostgreSQL Attachment to Firebase format
-export function toFirebaseAttachment(dbAttachment: Attachment): FirebaseAttachment {
+export function toFirebaseAttachment(
+  dbAttachment: ApiResponse<typeof contract.attachments.list>[number]
+): FirebaseAttachment {
   return {
     id: dbAttachment.id.toString(),
     fileName: dbAttachment.fileName,
@@ -36,41 +77,80 @@ export function toFirebaseAttachment(dbAttachment: Attachment): FirebaseAttachme
     establishmentId: dbAttachment.establishmentId.toString(),
     userId: dbAttachment.userId.toString(),
     uploadDate: dbAttachment.uploadDate || new Date(),
+    permissions: dbAttachment.permissions,
   };
 }
 
-// Fetch establishments from the API
+// Query params accepted by GET /api/establishments
+export type EstablishmentListFilters = {
+  q?: string;
+  category?: string;
+  tag?: string;
+  district?: string;
+  // A location ID; includes the locations nested under it
+  location?: string;
+  minRating?: number;
+  maxRating?: number;
+  // Measure distances from a point, optionally only within radiusKm of it
+  near?: { latitude: number; longitude: number; radiusKm?: number };
+  // Only establishments open now, or at the given moment
+  openNow?: boolean;
+  openAt?: Date;
+};
+
+type ListQuery = Omit<NonNullable<ApiRequest<typeof contract.establishments.export>["query"]>, "format">;
+
+// The list's filters and order as query params, shared by the list and its export
+function listQuery(filters?: EstablishmentListFilters, sortBy?: string): ListQuery {
+  return {
+    q: filters?.q || undefined,
+    category: filters?.category || undefined,
+    tag: filters?.tag || undefined,
+    district: filters?.district || undefined,
+    location: filters?.location ? Number(filters.location) : undefined,
+    minRating: filters?.minRating,
+    maxRating: filters?.maxRating,
+    lat: filters?.near?.latitude,
+    lng: filters?.near?.longitude,
+    radius: filters?.near?.radiusKm,
+    openNow: filters?.openNow ? 'true' : undefined,
+    openAt: filters?.openAt?.toISOString(),
+    // The server falls back to its default order for one it does not know
+    sortBy: (sortBy || undefined) as ListQuery["sortBy"],
+  };
+}
+
+// Fetch one page of establishments from the API
 export async function fetchEstablishments(
-  filters?: { category?: string; location?: string; rating?: string },
-  sortBy?: string
-): Promise<FirebaseEstablishment[]> {
-  try {
-    // Build query string for filters
-    const queryParams = new URLSearchParams();
-    if (filters?.category) queryParams.append('category', filters.category);
-    if (filters?.location) queryParams.append('location', filters.location);
-    if (filters?.rating) queryParams.append('rating', filters.rating);
-    if (sortBy) queryParams.append('sortBy', sortBy);
-    
-    const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
-    
-    const establishments = await apiRequest<Establishment[]>(`/api/establishments${queryString}`, {
-      method: 'GET'
+  filters?: EstablishmentListFilters,
+  sortBy?: string,
+  page?: { limit?: number; cursor?: string }
+): Promise<Paginated<FirebaseEstablishment>> {
+  try {
+    const result = await api.establishments.list({
+      query: { ...listQuery(filters, sortBy), limit: page?.limit || undefined, cursor: page?.cursor || undefined }
     });
     
-    return establishments.map(toFirebaseEstablishment);
+    return { ...result, items: result.items.map(toFirebaseEstablishment) };
   } catch (error) {
     console.error('Error fetching establishments:', error);
-    return [];
+    return { items: [], nextCursor: null, total: 0 };
   }
 }
 
+// Where to download every establishment matching the filters, in the list's order
+export function establishmentExportUrl(
+  format: ExportFormat,
+  filters?: EstablishmentListFilters,
+  sortBy?: string
+): string {
+  return apiUrl(contract.establishments.export, { query: { ...listQuery(filters, sortBy), format } });
+}
+
 // Fetch a single establishment by ID
 export async function fetchEstablishment(id: string): Promise<FirebaseEstablishment | null> {
   try {
-    const establishment = await apiRequest<Establishment>(`/api/establishments/${id}`, {
-      method: 'GET'
-    });
+    const establishment = await api.establishments.get({ params: { id } });
     
     return toFirebaseEstablishment(establishment);
   } catch (error) {
@@ -83,20 +163,27 @@ export async function fetchEstablishment(id: string): Promise<FirebaseEstablishm
 export async function createEstablishment(data: Partial<Omit<FirebaseEstablishment, "id" | "createdAt">>): Promise<FirebaseEstablishment> {
   try {
     // Ensure required fields are present
-    if (!data.name || !data.category || !data.location) {
-      throw new Error("Missing required fields: name, category, and location are required");
+    if (!data.name || !data.category || !data.city) {
+      throw new Error("Missing required fields: name, category, and city are required");
     }
 
-    // Default rating to "5" if not provided
-    const establishment = await apiRequest<Establishment>('/api/establishments', {
-      method: 'POST',
+    const establishment = await api.establishments.create({
       body: {
         name: data.name,
         category: data.category,
-        location: data.location,
+        street: data.street ?? null,
+        district: data.district ?? null,
+        city: data.city,
+        postalCode: data.postalCode ?? null,
+        country: data.country ?? null,
+        locationId: data.locationId ? parseInt(data.locationId) : null,
         description: data.description || '',
-        rating: data.rating || '5',
         coverImage: data.coverImage || null,
+        latitude: data.latitude ?? null,
+        longitude: data.longitude ?? null,
+        // Opening hours are entered in the creator's local time until the time zone is changed
+        timezone: data.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+        tags: data.tags ?? [],
         // userId will be handled by server
       }
     });
@@ -108,64 +195,202 @@ export async function createEstablishment(data: Partial<Omit<FirebaseEstablishme
   }
 }
 
-// Update an establishment
+// Someone else changed the establishment since the version the change was based on
+export class EstablishmentConflictError extends Error {
+  constructor(public current: FirebaseEstablishment) {
+    super("This establishment was changed by someone else");
+    this.name = "EstablishmentConflictError";
+  }
+}
+
+// Turn a 412 response, which carries the establishment as it is now, into a conflict error
+function toConflictError(error: unknown): unknown {
+  if (error instanceof ApiError && error.status === 412 && error.body?.current) {
+    return new EstablishmentConflictError(toFirebaseEstablishment(error.body.current));
+  }
+  return error;
+}
+
+// Update an establishment, based on the version the changes were made to
 export async function updateEstablishment(
   id: string, 
-  data: Partial<FirebaseEstablishment>
+  data: Partial<FirebaseEstablishment>,
+  version: number
 ): Promise<boolean> {
   try {
-    // Convert IDs to numbers if present
-    const updateData: any = { ...data };
-    
-    if (updateData.userId) {
-      updateData.userId = parseInt(updateData.userId);
-    }
-    
-    // Remove fields that should not be updated
-    delete updateData.id;
-    delete updateData.createdAt;
+    // Only the fields people edit; the server rejects the rest. Empty text clears a field.
+    const changes: ApiRequest<typeof contract.establishments.update>["body"] = {
+      name: data.name,
+      category: data.category,
+      street: data.street,
+      district: data.district,
+      city: data.city ?? undefined,
+      postalCode: data.postalCode,
+      country: data.country,
+      locationId: data.locationId === undefined ? undefined : data.locationId ? parseInt(data.locationId) : null,
+      description: data.description === undefined ? undefined : data.description || null,
+      coverImage: data.coverImage === undefined ? undefined : data.coverImage || null,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      timezone: data.timezone,
+      tags: data.tags,
+    };
     
-    // Handle empty strings
-    if (updateData.description === '') {
-      updateData.description = null;
-    }
-    
-    if (updateData.coverImage === '') {
-      updateData.coverImage = null;
-    }
-    
-    const result = await apiRequest<{ success: boolean }>(`/api/establishments/${id}`, {
-      method: 'PATCH',
-      body: updateData
+    const result = await api.establishments.update({
+      params: { id },
+      body: changes,
+      headers: { 'if-match': versionETag(version) }
     });
     
     return result.success;
   } catch (error) {
     console.error(`Error updating establishment with ID ${id}:`, error);
-    return false;
+    throw toConflictError(error);
   }
 }
 
-// Delete an establishment
-export async function deleteEstablishment(id: string): Promise<boolean> {
+// Delete an establishment, as long as it is still at the given version
+export async function deleteEstablishment(id: string, version: number): Promise<boolean> {
   try {
-    const result = await apiRequest<{ success: boolean }>(`/api/establishments/${id}`, {
-      method: 'DELETE'
+    const result = await api.establishments.delete({
+      params: { id },
+      headers: { 'if-match': versionETag(version) }
     });
     
     return result.success;
   } catch (error) {
     console.error(`Error deleting establishment with ID ${id}:`, error);
-    return false;
+    throw toConflictError(error);
+  }
+}
+
+// Fetch an establishment's opening hours and exception dates
+export async function fetchSchedule(establishmentId: string): Promise<EstablishmentSchedule | null> {
+  try {
+    return await api.establishments.getHours({ params: { id: establishmentId } });
+  } catch (error) {
+    console.error(`Error fetching opening hours for establishment ${establishmentId}:`, error);
+    return null;
+  }
+}
+
+// Replace an establishment's opening hours, exception dates and time zone, as long as it is still
+// at the given version
+export async function saveSchedule(
+  establishmentId: string,
+  schedule: ScheduleInput,
+  version: number
+): Promise<EstablishmentSchedule> {
+  try {
+    return await api.establishments.setHours({
+      params: { id: establishmentId },
+      body: schedule,
+      headers: { 'if-match': versionETag(version) }
+    });
+  } catch (error) {
+    console.error(`Error saving opening hours for establishment ${establishmentId}:`, error);
+    throw toConflictError(error);
+  }
+}
+
+// Fetch all categories or tags, by name
+export async function fetchTerms(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+  try {
+    return await api[kind].list();
+  } catch (error) {
+    console.error(`Error fetching ${kind}:`, error);
+    return [];
+  }
+}
+
+// Create a category or tag (admin only)
+export async function createTerm(kind: TaxonomyKind, data: InsertCategory): Promise<TaxonomyTerm> {
+  try {
+    return await api[kind].create({ body: data });
+  } catch (error) {
+    console.error(`Error creating term in ${kind}:`, error);
+    throw error;
+  }
+}
+
+// Update a category or tag (admin only)
+export async function updateTerm(kind: TaxonomyKind, id: number, data: Partial<InsertCategory>): Promise<TaxonomyTerm> {
+  try {
+    return await api[kind].update({ params: { id }, body: data });
+  } catch (error) {
+    console.error(`Error updating term ${id} in ${kind}:`, error);
+    throw error;
+  }
+}
+
+// Delete a category or tag (admin only); categories still in use are refused
+export async function deleteTerm(kind: TaxonomyKind, id: number): Promise<boolean> {
+  try {
+    const result = await api[kind].delete({ params: { id } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error deleting term ${id} in ${kind}:`, error);
+    throw error;
+  }
+}
+
+// Fetch the whole location tree as a flat list
+export async function fetchLocations(): Promise<Location[]> {
+  try {
+    return await api.locations.list();
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return [];
+  }
+}
+
+// Create a location (admin only)
+export async function createLocation(data: InsertLocation): Promise<Location> {
+  try {
+    return await api.locations.create({ body: data });
+  } catch (error) {
+    console.error('Error creating location:', error);
+    throw error;
+  }
+}
+
+// Update a location (admin only)
+export async function updateLocation(id: number, data: Partial<InsertLocation>): Promise<Location> {
+  try {
+    return await api.locations.update({ params: { id }, body: data });
+  } catch (error) {
+    console.error(`Error updating location with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+// Delete a location (admin only); locations still in use are refused
+export async function deleteLocation(id: number): Promise<boolean> {
+  try {
+    const result = await api.locations.delete({ params: { id } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error deleting location with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+// Fetch the districts establishments are in
+export async function fetchDistricts(): Promise<string[]> {
+  try {
+    return await api.locations.districts();
+  } catch (error) {
+    console.error('Error fetching districts:', error);
+    return [];
   }
 }
 
 // Fetch attachments for an establishment
 export async function fetchAttachments(establishmentId: string): Promise<FirebaseAttachment[]> {
   try {
-    const attachments = await apiRequest<Attachment[]>(`/api/establishments/${establishmentId}/attachments`, {
-      method: 'GET'
-    });
+    const attachments = await api.attachments.list({ params: { id: establishmentId } });
     
     return attachments.map(toFirebaseAttachment);
   } catch (error) {
@@ -174,30 +399,43 @@ export async function fetchAttachments(establishmentId: string): Promise<Firebas
   }
 }
 
-// Create a new attachment
-export async function createAttachment(data: Omit<FirebaseAttachment, "id" | "uploadDate">): Promise<FirebaseAttachment> {
+// Upload a file to the server, which stores it and records the attachment together
+export async function uploadAttachment(
+  establishmentId: string,
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<FirebaseAttachment> {
   try {
-    // Ensure required fields are present
-    if (!data.fileName || !data.fileType || !data.fileSize || !data.filePath || !data.establishmentId || !data.userId) {
-      throw new Error("Missing required fields for attachment");
-    }
+    const attachment = await sendForm(contract.attachments.upload, {
+      params: { id: establishmentId },
+      body: { file }
+    }, onProgress);
     
-    // Convert string IDs to numbers for the API
-    const attachment = await apiRequest<Attachment>('/api/attachments', {
-      method: 'POST',
+    return toFirebaseAttachment(attachment);
+  } catch (error) {
+    console.error(`Error uploading attachment for establishment ${establishmentId}:`, error);
+    throw error;
+  }
+}
+
+// Check a CSV or XLSX sheet of establishments, or with dryRun false also create its valid rows.
+// Without a mapping, the server maps columns by their headers.
+export async function importEstablishments(
+  file: File,
+  options: { dryRun: boolean; mapping?: ImportMapping }
+): Promise<ImportReport> {
+  try {
+    return await api.establishments.import({
       body: {
-        fileName: data.fileName,
-        fileType: data.fileType,
-        fileSize: data.fileSize,
-        filePath: data.filePath,
-        establishmentId: parseInt(data.establishmentId),
-        userId: parseInt(data.userId),
+        file,
+        dryRun: options.dryRun ? 'true' : 'false',
+        mapping: options.mapping && JSON.stringify(options.mapping),
+        // Rows without a time zone get the importer's, as establishments added one at a time do
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       }
     });
-    
-    return toFirebaseAttachment(attachment);
   } catch (error) {
-    console.error('Error creating attachment:', error);
+    console.error('Error importing establishments:', error);
     throw error;
   }
 }
@@ -205,13 +443,143 @@ export async function createAttachment(data: Omit<FirebaseAttachment, "id" | "up
 // Delete an attachment
 export async function deleteAttachment(id: string): Promise<boolean> {
   try {
-    const result = await apiRequest<{ success: boolean }>(`/api/attachments/${id}`, {
-      method: 'DELETE'
-    });
+    const result = await api.attachments.delete({ params: { id } });
     
     return result.success;
   } catch (error) {
     console.error(`Error deleting attachment with ID ${id}:`, error);
-    return false;
+    throw error;
+  }
+}
+
+// Fetch the reviews of an establishment, newest first
+export async function fetchReviews(establishmentId: string): Promise<WithPermissions<ReviewWithAuthor>[]> {
+  try {
+    return await api.reviews.list({ params: { id: establishmentId } });
+  } catch (error) {
+    console.error(`Error fetching reviews for establishment ${establishmentId}:`, error);
+    return [];
+  }
+}
+
+// Review an establishment as the signed-in user
+export async function createReview(establishmentId: string, input: ReviewInput): Promise<Review> {
+  try {
+    return await api.reviews.create({ params: { id: establishmentId }, body: input });
+  } catch (error) {
+    console.error(`Error reviewing establishment ${establishmentId}:`, error);
+    throw error;
+  }
+}
+
+// Update a review
+export async function updateReview(id: number, input: Partial<ReviewInput>): Promise<Review> {
+  try {
+    return await api.reviews.update({ params: { id }, body: input });
+  } catch (error) {
+    console.error(`Error updating review with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+// Delete a review
+export async function deleteReview(id: number): Promise<boolean> {
+  try {
+    const result = await api.reviews.delete({ params: { id } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error deleting review with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+// Fetch who changed an establishment and its attachments, newest first
+export async function fetchHistory(establishmentId: string): Promise<AuditEntryWithActor[]> {
+  try {
+    return await api.establishments.history({ params: { id: establishmentId } });
+  } catch (error) {
+    console.error(`Error fetching history for establishment ${establishmentId}:`, error);
+    return [];
+  }
+}
+
+// Write back the values a past update replaced
+export async function revertChange(establishmentId: string, entryId: number): Promise<boolean> {
+  try {
+    const result = await api.establishments.revert({ params: { id: establishmentId, entryId } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error reverting change ${entryId}:`, error);
+    throw error;
+  }
+}
+
+// Deleted establishments and files the signed-in user may restore or purge
+export type TrashContents = ApiResponse<typeof contract.trash.list>;
+
+// Fetch the trash: everyone's for admins, their own for owners
+export async function fetchTrash(): Promise<TrashContents> {
+  try {
+    return await api.trash.list();
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return { establishments: [], attachments: [] };
+  }
+}
+
+// Restore or permanently delete an establishment or file in the trash
+export async function restoreFromTrash(kind: "establishments" | "attachments", id: number): Promise<boolean> {
+  try {
+    const restore = kind === "establishments" ? api.trash.restoreEstablishment : api.trash.restoreAttachment;
+    const result = await restore({ params: { id } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error restoring ${kind} ${id}:`, error);
+    throw error;
+  }
+}
+
+export async function purgeFromTrash(kind: "establishments" | "attachments", id: number): Promise<boolean> {
+  try {
+    const purge = kind === "establishments" ? api.trash.purgeEstablishment : api.trash.purgeAttachment;
+    const result = await purge({ params: { id } });
+    
+    return result.success;
+  } catch (error) {
+    console.error(`Error purging ${kind} ${id}:`, error);
+    throw error;
+  }
+}
+
+// Fetch the API's users row for the signed-in user
+export async function fetchCurrentUser(): Promise<PublicUser | null> {
+  try {
+    return await api.users.me();
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return null;
+  }
+}
+
+// Fetch all users (admin only)
+export async function fetchUsers(): Promise<PublicUser[]> {
+  try {
+    return await api.users.list();
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw error;
+  }
+}
+
+// Change a user's role (admin only)
+export async function updateUserRole(id: number, role: UserRole): Promise<PublicUser> {
+  try {
+    return await api.users.updateRole({ params: { id }, body: { role } });
+  } catch (error) {
+    console.error(`Error updating role for user ${id}:`, error);
+    throw error;
   }
-}
\ No newline at end of file
+}
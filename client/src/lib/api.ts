@@ -0,0 +1,100 @@
+import { contract, type ApiRequest, type ApiResponse, type ApiRoute } from "@shared/api";
+import { apiRequest, getAuthHeaders, throwIfResNotOk } from "./queryClient";
+
+type ApiRoutes = Record<string, Record<string, ApiRoute>>;
+
+// Calls a route; the request may be left out when the route takes nothing that is required
+type ApiCall<R extends ApiRoute> = {} extends ApiRequest<R>
+  ? (request?: ApiRequest<R>) => Promise<ApiResponse<R>>
+  : (request: ApiRequest<R>) => Promise<ApiResponse<R>>;
+
+export type ApiClient<C extends ApiRoutes> = {
+  [Group in keyof C]: { [Name in keyof C[Group]]: ApiCall<C[Group][Name]> };
+};
+
+type AnyRequest = {
+  params?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+// Where to send a request: the route's path with its params filled in, and the query without unset values
+export function apiUrl<R extends ApiRoute>(route: R, request?: Omit<ApiRequest<R>, "headers" | "body">): string {
+  const { params = {}, query = {} } = (request ?? {}) as AnyRequest;
+
+  // :key(*) takes the rest of the path, so its slashes are kept
+  const path = route.path.replace(/:(\w+)(\([^)]*\))?/g, (_, name: string, pattern?: string) => {
+    const value = String(params[name]);
+    return pattern ? value.split("/").map(encodeURIComponent).join("/") : encodeURIComponent(value);
+  });
+
+  const queryParams = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined) queryParams.append(name, String(value));
+  }
+  const queryString = queryParams.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+// Send a request to a route and return its JSON response
+export function callApi<R extends ApiRoute>(route: R, request?: ApiRequest<R>): Promise<ApiResponse<R>> {
+  const { headers, body } = (request ?? {}) as AnyRequest;
+
+  return apiRequest<ApiResponse<R>>(apiUrl(route, request), {
+    method: route.method.toUpperCase(),
+    body,
+    headers,
+  });
+}
+
+// Send a multipart form, with a file, to a route and return its JSON response. XMLHttpRequest
+// rather than fetch so upload progress can be reported
+export async function sendForm<R extends ApiRoute>(
+  route: R,
+  request: ApiRequest<R>,
+  onProgress?: (progress: number) => void
+): Promise<ApiResponse<R>> {
+  const { body } = request as AnyRequest;
+  const formData = new FormData();
+  for (const [name, value] of Object.entries((body ?? {}) as Record<string, string | Blob | undefined>)) {
+    if (value !== undefined) formData.append(name, value);
+  }
+  const headers = await getAuthHeaders();
+
+  const res = await new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(route.method.toUpperCase(), apiUrl(route, request));
+    xhr.withCredentials = true;
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (onProgress && event.lengthComputable) {
+        onProgress((event.loaded / event.total) * 100);
+      }
+    };
+    xhr.onload = () => resolve(new Response(xhr.responseText, { status: xhr.status, statusText: xhr.statusText }));
+    xhr.onerror = () => reject(new Error("Network error while uploading file"));
+    xhr.send(formData);
+  });
+
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+/**
+ * A function for each route of the contract, grouped as it is, taking the route's params, query,
+ * headers and body and returning its response, typed from the contract's schemas.
+ */
+export function createApiClient<C extends ApiRoutes>(routes: C): ApiClient<C> {
+  return Object.fromEntries(Object.entries(routes).map(([group, groupRoutes]) => [
+    group,
+    Object.fromEntries(Object.entries(groupRoutes).map(([name, route]) => [
+      name,
+      (request?: ApiRequest<ApiRoute>) =>
+        route.contentType === "multipart/form-data" ? sendForm(route, request!) : callApi(route, request),
+    ])),
+  ])) as ApiClient<C>;
+}
+
+export const api = createApiClient(contract);
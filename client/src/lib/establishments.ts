@@ -48,11 +48,23 @@ const convertDocToEstablishment = (doc: DocumentData): FirebaseEstablishment =>
     name: data.name,
     category: data.category,
     location: data.location,
+    street: data.street ?? null,
+    district: data.district ?? null,
+    city: data.city ?? null,
+    postalCode: data.postalCode ?? null,
+    country: data.country ?? null,
+    locationId: data.locationId ?? null,
     description: data.description || "",
-    rating: data.rating || "5",
+    rating: data.rating ?? null,
+    reviewCount: data.reviewCount ?? 0,
     coverImage: data.coverImage || "",
+    latitude: data.latitude ?? null,
+    longitude: data.longitude ?? null,
+    timezone: data.timezone || "UTC",
+    tags: data.tags ?? [],
     userId: data.userId,
     createdAt: data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date(),
+    version: data.version ?? 1,
   };
 };
 
@@ -1,39 +1,56 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { auth } from "./firebase";
 
-async function throwIfResNotOk(res: Response) {
+// Attach the signed-in user's Firebase ID token so the API knows who is calling
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// A failed API call, keeping the status and parsed JSON body for callers that handle specific responses
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any = null) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = await res.text();
+    let errorJson: any;
     
     try {
       // Try to parse the error as JSON
-      const errorJson = JSON.parse(text);
+      errorJson = JSON.parse(text);
       
       // Handle validation errors (like Zod errors)
       if (errorJson.error && Array.isArray(errorJson.error)) {
         const validationErrors = errorJson.error
           .map((err: any) => {
-            if (err.path && err.message) {
+            // Errors about the whole body, such as unknown fields, have an empty path
+            if (err.path?.length && err.message) {
               return `${err.path.join('.')}: ${err.message}`;
             }
             return err.message || JSON.stringify(err);
           })
           .join('; ');
         
-        throw new Error(`Validation error: ${validationErrors}`);
+        throw new ApiError(`Validation error: ${validationErrors}`, res.status, errorJson);
       }
       
       // Handle other JSON errors
       if (errorJson.error) {
-        throw new Error(typeof errorJson.error === 'string' 
+        throw new ApiError(typeof errorJson.error === 'string' 
           ? errorJson.error 
-          : JSON.stringify(errorJson.error));
+          : JSON.stringify(errorJson.error), res.status, errorJson);
       }
       
-      throw new Error(JSON.stringify(errorJson));
+      throw new ApiError(JSON.stringify(errorJson), res.status, errorJson);
     } catch (e) {
       // If not JSON or other error in parsing, use the text
       if (e instanceof SyntaxError) {
-        throw new Error(`${res.status}: ${text || res.statusText}`);
+        throw new ApiError(`${res.status}: ${text || res.statusText}`, res.status);
       }
       throw e; // Rethrow if it's our custom error
     }
@@ -45,11 +62,16 @@ export async function apiRequest<T>(
   options: {
     method: string;
     body?: any;
+    headers?: Record<string, string>;
   }
 ): Promise<T> {
   const res = await fetch(url, {
     method: options.method,
-    headers: options.body ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(await getAuthHeaders()),
+      ...(options.body ? { "Content-Type": "application/json" } : {}),
+      ...options.headers,
+    },
     body: options.body ? JSON.stringify(options.body) : undefined,
     credentials: "include",
   });
@@ -66,6 +88,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
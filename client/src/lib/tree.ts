@@ -0,0 +1,20 @@
+// Helpers for records that nest through parentId, such as categories, tags and locations
+type TreeNode = { id: number; parentId: number | null };
+
+// Nodes in tree order, each followed by the nodes nested under it, with their depth for indenting
+export function flattenTree<T extends TreeNode>(nodes: T[], parentId: number | null = null, depth = 0): { node: T; depth: number }[] {
+  return nodes
+    .filter((node) => node.parentId === parentId)
+    .flatMap((node) => [{ node, depth }, ...flattenTree(nodes, node.id, depth + 1)]);
+}
+
+// The node and its ancestors, root first; empty when the node is unknown
+export function pathTo<T extends TreeNode>(nodes: T[], id: number | null): T[] {
+  const path: T[] = [];
+  let node = nodes.find((candidate) => candidate.id === id);
+  while (node && !path.includes(node)) {
+    path.unshift(node);
+    node = nodes.find((candidate) => candidate.id === node!.parentId);
+  }
+  return path;
+}
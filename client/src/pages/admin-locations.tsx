@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/layout/Header";
+import LocationModal from "@/components/modals/LocationModal";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateLocations } from "@/hooks/use-locations";
+import { flattenTree } from "@/lib/tree";
+import { fetchLocations, deleteLocation } from "@/lib/adapters";
+import { LOCATION_KINDS, type Location } from "@shared/schema";
+import { Helmet } from "react-helmet";
+
+export default function AdminLocations() {
+  const { profile, can } = useAuth();
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The location being edited, or the parent of the one being added
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [addingTo, setAddingTo] = useState<Location | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [deleting, setDeleting] = useState<Location | null>(null);
+
+  // Load the location tree
+  useEffect(() => {
+    const loadLocations = async () => {
+      if (!can("location:manage")) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setLocations(await fetchLocations());
+      setIsLoading(false);
+    };
+
+    loadLocations();
+  }, [profile]);
+
+  const openModal = (location: Location | null, parent: Location | null) => {
+    setEditing(location);
+    setAddingTo(parent);
+    setShowModal(true);
+  };
+
+  const handleSaved = (saved: Location) => {
+    setLocations((current) =>
+      [...current.filter((location) => location.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    invalidateLocations();
+    toast({ title: "Location saved", description: `${saved.name} has been saved` });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteLocation(deleting.id);
+      setLocations((current) => current.filter((location) => location.id !== deleting.id));
+      invalidateLocations();
+      toast({ title: "Location deleted", description: `${deleting.name} has been deleted` });
+    } catch (error: any) {
+      toast({
+        title: "Error deleting location",
+        description: error.message || "There was an error deleting the location",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Locations | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <div className="flex items-center justify-between mb-8">
+            <h1 className="text-3xl font-semibold">Locations</h1>
+            {can("location:manage") && (
+              <Button onClick={() => openModal(null, null)}>
+                <Plus className="mr-2 h-4 w-4" /> Add city
+              </Button>
+            )}
+          </div>
+
+          {!can("location:manage") ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">Admins only</h3>
+              <p className="text-muted-foreground">You need the admin role to manage locations.</p>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Level</TableHead>
+                      <TableHead className="w-[200px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading
+                      ? [...Array(4)].map((_, index) => (
+                          <TableRow key={index}>
+                            <TableCell colSpan={3}>
+                              <Skeleton className="h-6 w-full" />
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      : flattenTree(locations).map(({ node: location, depth }) => {
+                          const childKind = LOCATION_KINDS[LOCATION_KINDS.indexOf(location.kind) + 1];
+                          return (
+                            <TableRow key={location.id}>
+                              <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                                {location.name}
+                              </TableCell>
+                              <TableCell className="capitalize">{location.kind}</TableCell>
+                              <TableCell className="text-right">
+                                {childKind && (
+                                  <Button variant="ghost" size="sm" onClick={() => openModal(null, location)}>
+                                    <Plus className="mr-1 h-4 w-4" /> {childKind}
+                                  </Button>
+                                )}
+                                <Button variant="ghost" size="icon" onClick={() => openModal(location, null)} aria-label={`Edit ${location.name}`}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => setDeleting(location)} aria-label={`Delete ${location.name}`}>
+                                  <Trash2 className="h-4 w-4 text-red-500" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+
+      <LocationModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        locations={locations}
+        location={editing}
+        parent={addingTo}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Locations that contain other locations or have establishments filed under them cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
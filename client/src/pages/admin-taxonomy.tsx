@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/layout/Header";
+import TermBadge from "@/components/TermBadge";
+import TermModal from "@/components/modals/TermModal";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateTaxonomy } from "@/hooks/use-taxonomy";
+import { flattenTree } from "@/lib/tree";
+import { fetchTerms, deleteTerm } from "@/lib/adapters";
+import { TAXONOMY_KINDS, type TaxonomyKind, type TaxonomyTerm } from "@shared/schema";
+import { Helmet } from "react-helmet";
+
+export default function AdminTaxonomy() {
+  const { profile, can } = useAuth();
+  const { toast } = useToast();
+  const [terms, setTerms] = useState<Record<TaxonomyKind, TaxonomyTerm[]>>({ categories: [], tags: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [kind, setKind] = useState<TaxonomyKind>("categories");
+  // The term being edited; null while creating one
+  const [editing, setEditing] = useState<TaxonomyTerm | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [deleting, setDeleting] = useState<TaxonomyTerm | null>(null);
+
+  // Load categories and tags
+  useEffect(() => {
+    const loadTerms = async () => {
+      if (!can("taxonomy:manage")) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const [categories, tags] = await Promise.all([fetchTerms("categories"), fetchTerms("tags")]);
+      setTerms({ categories, tags });
+      setIsLoading(false);
+    };
+
+    loadTerms();
+  }, [profile]);
+
+  const handleSaved = (saved: TaxonomyTerm) => {
+    setTerms((current) => {
+      const others = current[kind].filter((term) => term.id !== saved.id);
+      return { ...current, [kind]: [...others, saved].sort((a, b) => a.name.localeCompare(b.name)) };
+    });
+    invalidateTaxonomy();
+    toast({ title: "Saved", description: `${saved.name} has been saved` });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteTerm(kind, deleting.id);
+      setTerms((current) => ({ ...current, [kind]: current[kind].filter((term) => term.id !== deleting.id) }));
+      invalidateTaxonomy();
+      toast({ title: "Deleted", description: `${deleting.name} has been deleted` });
+    } catch (error: any) {
+      toast({
+        title: "Error deleting",
+        description: error.message || "There was an error deleting the term",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Categories and Tags | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <h1 className="text-3xl font-semibold mb-8">Categories and tags</h1>
+
+          {!can("taxonomy:manage") ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">Admins only</h3>
+              <p className="text-muted-foreground">You need the admin role to manage categories and tags.</p>
+            </div>
+          ) : (
+            <Tabs value={kind} onValueChange={(value) => setKind(value as TaxonomyKind)}>
+              <div className="flex items-center justify-between mb-4">
+                <TabsList>
+                  <TabsTrigger value="categories">Categories</TabsTrigger>
+                  <TabsTrigger value="tags">Tags</TabsTrigger>
+                </TabsList>
+                <Button onClick={() => { setEditing(null); setShowModal(true); }}>
+                  <Plus className="mr-2 h-4 w-4" /> {kind === "categories" ? "Add category" : "Add tag"}
+                </Button>
+              </div>
+
+              {TAXONOMY_KINDS.map((tabKind) => (
+                <TabsContent key={tabKind} value={tabKind}>
+                  <Card>
+                    <CardContent className="p-0">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Slug</TableHead>
+                            <TableHead>Badge</TableHead>
+                            <TableHead className="w-[120px]" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {isLoading
+                            ? [...Array(4)].map((_, index) => (
+                                <TableRow key={index}>
+                                  <TableCell colSpan={4}>
+                                    <Skeleton className="h-6 w-full" />
+                                  </TableCell>
+                                </TableRow>
+                              ))
+                            : flattenTree(terms[tabKind]).map(({ node: term, depth }) => (
+                                <TableRow key={term.id}>
+                                  <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                                    {term.name}
+                                  </TableCell>
+                                  <TableCell className="font-mono text-sm">{term.slug}</TableCell>
+                                  <TableCell>
+                                    <TermBadge term={term} slug={term.slug} />
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    <Button variant="ghost" size="icon" onClick={() => { setEditing(term); setShowModal(true); }} aria-label={`Edit ${term.name}`}>
+                                      <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button variant="ghost" size="icon" onClick={() => setDeleting(term)} aria-label={`Delete ${term.name}`}>
+                                      <Trash2 className="h-4 w-4 text-red-500" />
+                                    </Button>
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </main>
+      </div>
+
+      <TermModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        kind={kind}
+        terms={terms[kind]}
+        term={editing}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {kind === "categories"
+                ? "Categories still used by establishments or with nested categories cannot be deleted."
+                : "The tag will be removed from every establishment that has it."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
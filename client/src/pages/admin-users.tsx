@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/layout/Header";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { fetchUsers, updateUserRole } from "@/lib/adapters";
+import { USER_ROLES, type PublicUser, type UserRole } from "@shared/schema";
+import { format } from "date-fns";
+import { Helmet } from "react-helmet";
+
+export default function AdminUsers() {
+  const { profile, can } = useAuth();
+  const { toast } = useToast();
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingUserId, setSavingUserId] = useState<number | null>(null);
+
+  // Load users
+  useEffect(() => {
+    const loadUsers = async () => {
+      if (!can("user:list")) {
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        setUsers(await fetchUsers());
+      } catch (error: any) {
+        toast({
+          title: "Error loading users",
+          description: error.message || "There was an error loading the users",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadUsers();
+  }, [profile]);
+
+  // Handle role change
+  const handleRoleChange = async (user: PublicUser, role: UserRole) => {
+    try {
+      setSavingUserId(user.id);
+      const updated = await updateUserRole(user.id, role);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      toast({
+        title: "Role updated",
+        description: `${updated.displayName || updated.username} is now ${role === "admin" ? "an" : "a"} ${role}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error updating role",
+        description: error.message || "There was an error updating the role",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Manage Users | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <h1 className="text-3xl font-semibold mb-8">Users</h1>
+
+          {!can("user:list") ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">Admins only</h3>
+              <p className="text-muted-foreground">You need the admin role to manage users.</p>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="w-[160px]">Role</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading
+                      ? [...Array(4)].map((_, index) => (
+                          <TableRow key={index}>
+                            <TableCell colSpan={4}>
+                              <Skeleton className="h-6 w-full" />
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      : users.map((user) => (
+                          <TableRow key={user.id}>
+                            <TableCell className="font-medium">{user.displayName || user.username}</TableCell>
+                            <TableCell>{user.email}</TableCell>
+                            <TableCell>
+                              {user.createdAt ? format(new Date(user.createdAt), "MMM d, yyyy") : "—"}
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={user.role}
+                                onValueChange={(role) => handleRoleChange(user, role as UserRole)}
+                                disabled={user.id === profile?.id || savingUserId === user.id}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {USER_ROLES.map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {role.charAt(0).toUpperCase() + role.slice(1)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
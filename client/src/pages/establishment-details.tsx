@@ -4,6 +4,12 @@ import { useEstablishment } from "@/contexts/EstablishmentContext";
 import { useAuth } from "@/contexts/AuthContext";
 import Header from "@/components/layout/Header";
 import FileItem from "@/components/FileItem";
+import ReviewsSection from "@/components/ReviewsSection";
+import OpeningHoursSection from "@/components/OpeningHoursSection";
+import HistorySection from "@/components/HistorySection";
+import TermBadge from "@/components/TermBadge";
+import LocationBreadcrumb from "@/components/LocationBreadcrumb";
+import AddEstablishmentModal from "@/components/modals/AddEstablishmentModal";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -13,21 +19,43 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { FileUpload } from "@/components/ui/file-upload";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Star, MapPin, Upload } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Star, MapPin, Upload, Pencil, Trash2, ShieldCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { EstablishmentConflictError } from "@/lib/adapters";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
 import type { FirebaseEstablishment, FirebaseAttachment } from "@shared/schema";
 import { Helmet } from "react-helmet";
 
 export default function EstablishmentDetails() {
   const { id } = useParams();
   const [, navigate] = useLocation();
-  const { getEstablishmentData, getAttachmentsData, uploadFileData, deleteFileData, loading } = useEstablishment();
-  const { currentUser } = useAuth();
+  const {
+    getEstablishmentData,
+    getAttachmentsData,
+    uploadFileData,
+    deleteFileData,
+    deleteEstablishmentData,
+    loading
+  } = useEstablishment();
+  const { currentUser, profile, can } = useAuth();
   const { toast } = useToast();
+  const { getCategory, getTag } = useTaxonomy();
 
   const [establishment, setEstablishment] = useState<FirebaseEstablishment | null>(null);
   const [attachments, setAttachments] = useState<FirebaseAttachment[]>([]);
@@ -35,60 +63,53 @@ export default function EstablishmentDetails() {
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
 
   // Load establishment data
-  useEffect(() => {
-    const loadData = async () => {
-      if (!id) return;
+  const loadData = async () => {
+    if (!id) return;
+    
+    try {
+      setIsLoading(true);
+      const establishmentData = await getEstablishmentData(id);
       
-      try {
-        setIsLoading(true);
-        const establishmentData = await getEstablishmentData(id);
-        
-        if (!establishmentData) {
-          toast({
-            title: "Establishment not found",
-            description: "The establishment you're looking for doesn't exist or has been removed.",
-            variant: "destructive",
-          });
-          navigate("/");
-          return;
-        }
-        
-        setEstablishment(establishmentData);
-        
-        // Load attachments
-        const attachmentsData = await getAttachmentsData(id);
-        setAttachments(attachmentsData);
-      } catch (error: any) {
+      if (!establishmentData) {
         toast({
-          title: "Error loading data",
-          description: error.message || "There was an error loading the establishment data",
+          title: "Establishment not found",
+          description: "The establishment you're looking for doesn't exist or has been removed.",
           variant: "destructive",
         });
-      } finally {
-        setIsLoading(false);
+        navigate("/");
+        return;
       }
-    };
-    
+      
+      setEstablishment(establishmentData);
+      
+      // Load attachments
+      const attachmentsData = await getAttachmentsData(id);
+      setAttachments(attachmentsData);
+    } catch (error: any) {
+      toast({
+        title: "Error loading data",
+        description: error.message || "There was an error loading the establishment data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
     loadData();
   }, [id]);
 
-  // Get category badge color
-  const getCategoryColor = (category?: string) => {
-    if (!category) return "";
-    
-    switch (category) {
-      case "Restaurant":
-        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100";
-      case "Retail":
-        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100";
-      case "Services":
-        return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100";
-      case "Entertainment":
-        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100";
-      default:
-        return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100";
+  // Reload just the establishment, e.g. to pick up a rating changed by a review
+  const refreshEstablishment = async () => {
+    if (!id) return;
+    const establishmentData = await getEstablishmentData(id);
+    if (establishmentData) {
+      setEstablishment(establishmentData);
     }
   };
 
@@ -110,7 +131,6 @@ export default function EstablishmentDetails() {
       await uploadFileData(
         file,
         establishment.id,
-        currentUser.uid,
         (progress) => setUploadProgress(progress)
       );
       
@@ -156,7 +176,7 @@ export default function EstablishmentDetails() {
       
       toast({
         title: "File deleted",
-        description: "The file has been deleted successfully",
+        description: "The file has been moved to the trash",
       });
     } catch (error: any) {
       toast({
@@ -167,19 +187,54 @@ export default function EstablishmentDetails() {
     }
   };
 
-  // Check if user can modify files (creator or admin)
-  const canModifyFiles = () => {
-    if (!currentUser || !establishment) return false;
-    return currentUser.uid === establishment.userId;
+  // Handle establishment deletion
+  const handleDeleteEstablishment = async () => {
+    if (!establishment) return;
+    
+    try {
+      setIsDeleting(true);
+      const deleted = await deleteEstablishmentData(establishment.id, establishment.version);
+      
+      if (!deleted) {
+        throw new Error("The establishment could not be deleted");
+      }
+      
+      navigate("/");
+    } catch (error: any) {
+      // Show what changed so the deletion can be reconsidered
+      if (error instanceof EstablishmentConflictError) {
+        setEstablishment(error.current);
+        toast({
+          title: "Not deleted",
+          description: "Someone else changed this establishment. Review their changes and delete it again if you still want to.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Delete error",
+        description: error.message || "There was an error deleting the establishment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
   };
 
+  // Edit and delete rights come from the server (owner or admin)
+  const canEditEstablishment = establishment?.permissions?.canEdit ?? false;
+  const canDeleteEstablishment = establishment?.permissions?.canDelete ?? false;
+  
+  // Admins acting on someone else's listing get a visible reminder
+  const isAdminOverride = profile?.role === "admin" && !!establishment && establishment.userId !== String(profile.id);
+
   return (
     <>
       <Helmet>
         <title>{establishment ? `${establishment.name} | EstablishmentDir` : "Establishment Details"}</title>
         <meta 
           name="description" 
-          content={establishment ? `View details and attached files for ${establishment.name} - ${establishment.category} located in ${establishment.location}` : "Loading establishment details"} 
+          content={establishment ? `View details and attached files for ${establishment.name} - ${getCategory(establishment.category)?.name ?? establishment.category} located in ${establishment.location}` : "Loading establishment details"} 
         />
       </Helmet>
       <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
@@ -229,57 +284,150 @@ export default function EstablishmentDetails() {
               <div className="flex flex-col md:flex-row md:items-start md:justify-between mb-6">
                 <div>
                   <div className="flex items-center mb-2">
-                    <Badge variant="outline" className={`${getCategoryColor(establishment.category)} mr-2`}>
-                      {establishment.category}
-                    </Badge>
+                    <TermBadge term={getCategory(establishment.category)} slug={establishment.category} className="mr-2" />
                     <div className="flex items-center">
                       <Star className="h-5 w-5 fill-current text-yellow-500 mr-1" />
-                      <span className="font-medium">{establishment.rating}</span>
+                      {establishment.rating !== null ? (
+                        <span className="font-medium">
+                          {establishment.rating.toFixed(1)}
+                          <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                            ({establishment.reviewCount} {establishment.reviewCount === 1 ? "review" : "reviews"})
+                          </span>
+                        </span>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">No reviews yet</span>
+                      )}
                     </div>
                   </div>
                   
+                  <LocationBreadcrumb path={establishment.locationPath ?? []} className="mb-2" />
                   <h1 className="text-2xl font-semibold mb-1">{establishment.name}</h1>
                   <p className="text-gray-600 dark:text-gray-400 flex items-center">
                     <MapPin className="h-4 w-4 mr-1" />
                     {establishment.location}
+                    {establishment.latitude !== null && establishment.longitude !== null && (
+                      <a
+                        href={`https://www.openstreetmap.org/?mlat=${establishment.latitude}&mlon=${establishment.longitude}#map=17/${establishment.latitude}/${establishment.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-2 text-sm text-primary hover:underline"
+                      >
+                        View on map
+                      </a>
+                    )}
                   </p>
+                  {establishment.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {establishment.tags.map((slug) => (
+                        <TermBadge key={slug} term={getTag(slug)} slug={slug} />
+                      ))}
+                    </div>
+                  )}
                 </div>
                 
-                {currentUser && (
-                  <Button 
-                    onClick={() => setShowUploadModal(true)}
-                    className="mt-4 md:mt-0"
-                  >
-                    <Upload className="mr-2 h-4 w-4" /> Upload File
-                  </Button>
-                )}
+                <div className="flex flex-wrap items-center gap-2 mt-4 md:mt-0">
+                  {isAdminOverride && (canEditEstablishment || canDeleteEstablishment) && (
+                    <Badge variant="secondary" className="mr-1">
+                      <ShieldCheck className="mr-1 h-3 w-3" /> Admin access
+                    </Badge>
+                  )}
+                  
+                  {canEditEstablishment && (
+                    <Button variant="outline" onClick={() => setShowEditModal(true)}>
+                      <Pencil className="mr-2 h-4 w-4" /> Edit
+                    </Button>
+                  )}
+                  
+                  {canDeleteEstablishment && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline">
+                          <Trash2 className="mr-2 h-4 w-4 text-red-500" /> Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {establishment.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The establishment and its attached files move to the trash, where they can be restored until they are permanently deleted.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleDeleteEstablishment} disabled={isDeleting}>
+                            {isDeleting ? "Deleting..." : "Delete"}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                  
+                  {currentUser && can("attachment:create") && (
+                    <Button onClick={() => setShowUploadModal(true)}>
+                      <Upload className="mr-2 h-4 w-4" /> Upload File
+                    </Button>
+                  )}
+                </div>
               </div>
               
               <Separator className="my-6" />
               
-              <div>
-                <h2 className="text-xl font-medium mb-4">Description</h2>
-                <p className="text-gray-700 dark:text-gray-300 mb-6 whitespace-pre-line">
-                  {establishment.description || "No description provided."}
-                </p>
+              {/* The change history is for those who may edit the establishment */}
+              <Tabs defaultValue="overview">
+                {canEditEstablishment && (
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="overview">Overview</TabsTrigger>
+                    <TabsTrigger value="history">History</TabsTrigger>
+                  </TabsList>
+                )}
                 
-                <h2 className="text-xl font-medium mb-4">Attached Files</h2>
+                <TabsContent value="overview">
+                  <h2 className="text-xl font-medium mb-4">Description</h2>
+                  <p className="text-gray-700 dark:text-gray-300 mb-6 whitespace-pre-line">
+                    {establishment.description || "No description provided."}
+                  </p>
                 
-                {attachments.length > 0 ? (
-                  <div className="space-y-3">
-                    {attachments.map((attachment) => (
-                      <FileItem 
-                        key={attachment.id} 
-                        attachment={attachment}
-                        onDelete={canModifyFiles() ? handleFileDelete : undefined}
-                        allowDelete={canModifyFiles()}
-                      />
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-gray-500 dark:text-gray-400">No files attached to this establishment yet.</p>
+                  <OpeningHoursSection
+                    establishmentId={establishment.id}
+                    version={establishment.version}
+                    canEdit={canEditEstablishment}
+                    onEstablishmentChanged={refreshEstablishment}
+                  />
+                
+                  <Separator className="my-6" />
+                
+                  <h2 className="text-xl font-medium mb-4">Attached Files</h2>
+                
+                  {attachments.length > 0 ? (
+                    <div className="space-y-3">
+                      {attachments.map((attachment) => (
+                        <FileItem 
+                          key={attachment.id} 
+                          attachment={attachment}
+                          onDelete={attachment.permissions?.canDelete ? handleFileDelete : undefined}
+                          allowDelete={attachment.permissions?.canDelete ?? false}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 dark:text-gray-400">No files attached to this establishment yet.</p>
+                  )}
+                
+                  <Separator className="my-6" />
+                
+                  <ReviewsSection establishmentId={establishment.id} onReviewsChanged={refreshEstablishment} />
+                </TabsContent>
+                
+                {canEditEstablishment && (
+                  <TabsContent value="history">
+                    <HistorySection
+                      establishmentId={establishment.id}
+                      canRevert={canEditEstablishment}
+                      onReverted={loadData}
+                    />
+                  </TabsContent>
                 )}
-              </div>
+              </Tabs>
             </>
           ) : (
             <div className="text-center py-12">
@@ -292,6 +440,14 @@ export default function EstablishmentDetails() {
           )}
         </main>
         
+        {/* Edit establishment modal */}
+        <AddEstablishmentModal
+          isOpen={showEditModal}
+          onClose={() => setShowEditModal(false)}
+          establishment={establishment}
+          onEstablishmentUpdated={loadData}
+        />
+        
         {/* File upload modal */}
         <Dialog open={showUploadModal} onOpenChange={setShowUploadModal}>
           <DialogContent>
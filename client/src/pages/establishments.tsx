@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { Link, useSearch } from "wouter";
 import { useEstablishment } from "@/contexts/EstablishmentContext";
 import { useAuth } from "@/contexts/AuthContext";
 import Header from "@/components/layout/Header";
@@ -16,53 +17,131 @@ import {
   Card,
   CardContent,
 } from "@/components/ui/card";
-import { Plus } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Plus, LocateFixed, X, FileSpreadsheet, Download } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { useLocations } from "@/hooks/use-locations";
+import { flattenTree } from "@/lib/tree";
 import type { FirebaseEstablishment, FirebaseAttachment } from "@shared/schema";
-import { ESTABLISHMENT_CATEGORIES, LOCATION_OPTIONS } from "@shared/schema";
+import { MIN_RATING, MAX_RATING } from "@shared/schema";
+import { establishmentExportUrl, type EstablishmentListFilters } from "@/lib/adapters";
+import type { Coordinates } from "@/components/CoordinatePicker";
 import { Helmet } from "react-helmet";
 
+const PAGE_SIZE = 12;
+const RADIUS_OPTIONS_KM = [1, 5, 10, 25, 50, 100];
+
+const EXPORT_FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "json", label: "JSON" },
+] as const;
+
 export default function Establishments() {
   const { getEstablishmentsData, getAttachmentsData, loading } = useEstablishment();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const { toast } = useToast();
+  const { categories, tags } = useTaxonomy();
+  const { locations } = useLocations();
+  // Location breadcrumbs link here with ?location=<id>
+  const locationParam = new URLSearchParams(useSearch()).get("location");
   const [establishments, setEstablishments] = useState<FirebaseEstablishment[]>([]);
   const [attachmentCounts, setAttachmentCounts] = useState<Record<string, number>>({});
   const [showAddModal, setShowAddModal] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Pagination state: cursors[i] is the cursor that loads page i
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [total, setTotal] = useState(0);
+
   // Filter states
   const [categoryFilter, setCategoryFilter] = useState<string>("All categories");
-  const [locationFilter, setLocationFilter] = useState<string>("All locations");
-  const [ratingFilter, setRatingFilter] = useState<string>("All ratings");
+  const [tagFilter, setTagFilter] = useState<string>("All tags");
+  const [locationFilter, setLocationFilter] = useState<string>(locationParam ?? "All locations");
+  // Rating range being dragged, and the committed range the list is filtered by
+  const [ratingRange, setRatingRange] = useState<number[]>([MIN_RATING, MAX_RATING]);
+  const [ratingFilter, setRatingFilter] = useState<number[]>([MIN_RATING, MAX_RATING]);
   const [sortBy, setSortBy] = useState<string>("Newest first");
+  // Where the user is, once they ask for establishments near them
+  const [nearPoint, setNearPoint] = useState<Coordinates | null>(null);
+  const [radiusKm, setRadiusKm] = useState<string>("10");
+  const [isLocating, setIsLocating] = useState(false);
+  const [openNow, setOpenNow] = useState(false);
 
-  // Load establishments
-  const loadEstablishments = async () => {
+  // The filters chosen above the list
+  const currentFilters = (): EstablishmentListFilters => {
+    const filters: EstablishmentListFilters = {};
+    
+    if (categoryFilter !== "All categories") {
+      filters.category = categoryFilter;
+    }
+    
+    if (tagFilter !== "All tags") {
+      filters.tag = tagFilter;
+    }
+    
+    if (locationFilter !== "All locations") {
+      filters.location = locationFilter;
+    }
+    
+    if (ratingFilter[0] > MIN_RATING) {
+      filters.minRating = ratingFilter[0];
+    }
+    
+    if (ratingFilter[1] < MAX_RATING) {
+      filters.maxRating = ratingFilter[1];
+    }
+    
+    if (nearPoint) {
+      filters.near = { ...nearPoint, radiusKm: Number(radiusKm) };
+    }
+    
+    if (openNow) {
+      filters.openNow = true;
+    }
+    
+    return filters;
+  };
+
+  // Load one page of establishments
+  const loadEstablishments = async (index = pageIndex, pageCursors = cursors) => {
     try {
       setIsLoading(true);
-      const filters: { category?: string; location?: string; rating?: string } = {};
-      
-      if (categoryFilter !== "All categories") {
-        filters.category = categoryFilter;
-      }
-      
-      if (locationFilter !== "All locations") {
-        filters.location = locationFilter;
-      }
-      
-      if (ratingFilter !== "All ratings") {
-        filters.rating = ratingFilter;
-      }
-      
-      const data = await getEstablishmentsData(filters, sortBy);
-      setEstablishments(data);
+      const page = await getEstablishmentsData(currentFilters(), sortBy, {
+        limit: PAGE_SIZE,
+        cursor: pageCursors[index],
+      });
+      setEstablishments(page.items);
+      setTotal(page.total);
+      setPageIndex(index);
+      setCursors(
+        page.nextCursor
+          ? [...pageCursors.slice(0, index + 1), page.nextCursor]
+          : pageCursors.slice(0, index + 1)
+      );
       
-      // Load attachment counts for each establishment using Supabase
+      // Load attachment counts for the establishments on this page
       const counts: Record<string, number> = {};
       await Promise.all(
-        data.map(async (establishment) => {
+        page.items.map(async (establishment) => {
           try {
             const attachments = await getAttachmentsData(establishment.id);
             counts[establishment.id] = attachments.length;
@@ -85,10 +164,57 @@ export default function Establishments() {
     }
   };
 
-  // Load establishments on mount and filter changes
   useEffect(() => {
-    loadEstablishments();
-  }, [categoryFilter, locationFilter, ratingFilter, sortBy]);
+    setLocationFilter(locationParam ?? "All locations");
+  }, [locationParam]);
+
+  // Start over from the first page on mount and filter changes
+  useEffect(() => {
+    loadEstablishments(0, [undefined]);
+  }, [categoryFilter, tagFilter, locationFilter, ratingFilter, sortBy, nearPoint, radiusKm, openNow]);
+
+  // Ask the browser where the user is and switch to nearest-first
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser cannot share its location",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        setNearPoint({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+        setSortBy("Distance");
+      },
+      (positionError) => {
+        setIsLocating(false);
+        toast({
+          title: "Location unavailable",
+          description: positionError.message || "Could not determine your location",
+          variant: "destructive",
+        });
+      }
+    );
+  };
+
+  const clearNearMe = () => {
+    setNearPoint(null);
+    if (sortBy === "Distance") {
+      setSortBy("Newest first");
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasPreviousPage = pageIndex > 0;
+  const hasNextPage = cursors.length > pageIndex + 1;
 
   // Handle add establishment button click
   const handleAddEstablishment = () => {
@@ -100,6 +226,14 @@ export default function Establishments() {
       });
       return;
     }
+    if (!can("establishment:create")) {
+      toast({
+        title: "Permission required",
+        description: "Your role does not allow adding establishments",
+        variant: "destructive",
+      });
+      return;
+    }
     setShowAddModal(true);
   };
 
@@ -116,7 +250,14 @@ export default function Establishments() {
           <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between">
             <h1 className="text-3xl font-semibold">Establishments</h1>
             
-            <div className="mt-4 sm:mt-0">
+            <div className="mt-4 sm:mt-0 flex gap-2">
+              {can("establishment:create") && (
+                <Button variant="outline" asChild>
+                  <Link href="/import">
+                    <FileSpreadsheet className="mr-2 h-4 w-4" /> Import
+                  </Link>
+                </Button>
+              )}
               <Button onClick={handleAddEstablishment}>
                 <Plus className="mr-2 h-4 w-4" /> Add Establishment
               </Button>
@@ -126,7 +267,7 @@ export default function Establishments() {
           {/* Filters */}
           <Card className="mb-8">
             <CardContent className="p-4">
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
                 <div>
                   <label className="block text-sm font-medium mb-1">Category</label>
                   <Select onValueChange={setCategoryFilter} defaultValue={categoryFilter}>
@@ -135,9 +276,9 @@ export default function Establishments() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="All categories">All categories</SelectItem>
-                      {ESTABLISHMENT_CATEGORIES.map((category) => (
-                        <SelectItem key={category} value={category}>
-                          {category}
+                      {flattenTree(categories).map(({ node: term, depth }) => (
+                        <SelectItem key={term.slug} value={term.slug} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {term.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -145,16 +286,16 @@ export default function Establishments() {
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium mb-1">Location</label>
-                  <Select onValueChange={setLocationFilter} defaultValue={locationFilter}>
+                  <label className="block text-sm font-medium mb-1">Tag</label>
+                  <Select onValueChange={setTagFilter} defaultValue={tagFilter}>
                     <SelectTrigger>
-                      <SelectValue placeholder="All locations" />
+                      <SelectValue placeholder="All tags" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="All locations">All locations</SelectItem>
-                      {LOCATION_OPTIONS.map((location) => (
-                        <SelectItem key={location} value={location}>
-                          {location}
+                      <SelectItem value="All tags">All tags</SelectItem>
+                      {flattenTree(tags).map(({ node: term, depth }) => (
+                        <SelectItem key={term.slug} value={term.slug} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {term.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -162,28 +303,48 @@ export default function Establishments() {
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium mb-1">Rating</label>
-                  <Select onValueChange={setRatingFilter} defaultValue={ratingFilter}>
+                  <label className="block text-sm font-medium mb-1">Location</label>
+                  <Select onValueChange={setLocationFilter} value={locationFilter}>
                     <SelectTrigger>
-                      <SelectValue placeholder="All ratings" />
+                      <SelectValue placeholder="All locations" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="All ratings">All ratings</SelectItem>
-                      <SelectItem value="5 stars">5 stars</SelectItem>
-                      <SelectItem value="4+ stars">4+ stars</SelectItem>
-                      <SelectItem value="3+ stars">3+ stars</SelectItem>
+                      <SelectItem value="All locations">All locations</SelectItem>
+                      {flattenTree(locations).map(({ node: location, depth }) => (
+                        <SelectItem key={location.id} value={String(location.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Rating: {ratingRange[0]}–{ratingRange[1]} stars
+                  </label>
+                  <Slider
+                    className="h-10"
+                    min={MIN_RATING}
+                    max={MAX_RATING}
+                    step={0.5}
+                    minStepsBetweenThumbs={0}
+                    value={ratingRange}
+                    onValueChange={setRatingRange}
+                    onValueCommit={setRatingFilter}
+                    aria-label="Rating range"
+                  />
+                </div>
+                
                 <div>
                   <label className="block text-sm font-medium mb-1">Sort by</label>
-                  <Select onValueChange={setSortBy} defaultValue={sortBy}>
+                  <Select onValueChange={setSortBy} value={sortBy}>
                     <SelectTrigger>
                       <SelectValue placeholder="Newest first" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="Newest first">Newest first</SelectItem>
+                      <SelectItem value="Distance" disabled={!nearPoint}>Nearest first</SelectItem>
                       <SelectItem value="Highest rated">Highest rated</SelectItem>
                       <SelectItem value="Name A-Z">Name A-Z</SelectItem>
                       <SelectItem value="Name Z-A">Name Z-A</SelectItem>
@@ -191,6 +352,57 @@ export default function Establishments() {
                   </Select>
                 </div>
               </div>
+              
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                {nearPoint ? (
+                  <>
+                    <span className="text-sm font-medium">Near me, within</span>
+                    <Select onValueChange={setRadiusKm} value={radiusKm}>
+                      <SelectTrigger className="w-[110px]" aria-label="Search radius">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RADIUS_OPTIONS_KM.map((radius) => (
+                          <SelectItem key={radius} value={radius.toString()}>
+                            {radius} km
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={clearNearMe}>
+                      <X className="mr-1 h-4 w-4" /> Clear
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={handleNearMe} disabled={isLocating}>
+                    <LocateFixed className="mr-2 h-4 w-4" />
+                    {isLocating ? "Locating..." : "Near me"}
+                  </Button>
+                )}
+                
+                <div className="flex items-center gap-2 ml-auto">
+                  <Switch id="open-now" checked={openNow} onCheckedChange={setOpenNow} />
+                  <Label htmlFor="open-now">Open now</Label>
+                </div>
+                
+                {/* Downloads everything matching the filters, not just this page */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={total === 0}>
+                      <Download className="mr-2 h-4 w-4" /> Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} asChild>
+                        <a href={establishmentExportUrl(format, currentFilters(), sortBy)} download>
+                          {label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </CardContent>
           </Card>
           
@@ -233,29 +445,40 @@ export default function Establishments() {
             </div>
           )}
           
-          {/* Pagination - to be implemented when needed */}
-          {establishments.length > 0 && (
-            <div className="mt-8 flex justify-center">
-              <nav className="inline-flex rounded-md shadow" aria-label="Pagination">
-                <Button variant="outline" className="rounded-l-md">
-                  <span className="sr-only">Previous</span>
-                  Previous
-                </Button>
-                <Button variant="outline" className="rounded-none bg-primary text-primary-foreground">
-                  1
-                </Button>
-                <Button variant="outline" className="rounded-none">
-                  2
-                </Button>
-                <Button variant="outline" className="rounded-none">
-                  3
-                </Button>
-                <Button variant="outline" className="rounded-r-md">
-                  <span className="sr-only">Next</span>
-                  Next
-                </Button>
-              </nav>
-            </div>
+          {/* Pagination */}
+          {establishments.length > 0 && (hasPreviousPage || hasNextPage) && (
+            <Pagination className="mt-8">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={!hasPreviousPage || isLoading}
+                    className={!hasPreviousPage || isLoading ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={(event) => {
+                      event.preventDefault();
+                      // A disabled link can still be followed from the keyboard
+                      if (hasPreviousPage && !isLoading) loadEstablishments(pageIndex - 1);
+                    }}
+                  />
+                </PaginationItem>
+                <PaginationItem>
+                  <span className="px-4 text-sm text-muted-foreground">
+                    Page {pageIndex + 1} of {pageCount}
+                  </span>
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={!hasNextPage || isLoading}
+                    className={!hasNextPage || isLoading ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={(event) => {
+                      event.preventDefault();
+                      if (hasNextPage && !isLoading) loadEstablishments(pageIndex + 1);
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
           )}
         </main>
         
@@ -263,7 +486,7 @@ export default function Establishments() {
         <AddEstablishmentModal
           isOpen={showAddModal}
           onClose={() => setShowAddModal(false)}
-          onEstablishmentAdded={loadEstablishments}
+          onEstablishmentAdded={() => loadEstablishments(0, [undefined])}
         />
       </div>
     </>
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/layout/Header";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { FileUpload } from "@/components/ui/file-upload";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldFormat } from "@/hooks/use-field-format";
+import { importEstablishments } from "@/lib/adapters";
+import { IMPORT_FIELDS, type ImportField, type ImportMapping, type ImportReport, type ImportRow, type ImportRowStatus } from "@shared/schema";
+import { Helmet } from "react-helmet";
+
+const IGNORED = "ignore";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: "Ready",
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, "secondary" | "destructive" | "outline"> = {
+  valid: "secondary",
+  invalid: "destructive",
+  duplicate: "outline",
+};
+
+export default function ImportPage() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const { formatLabel } = useFieldFormat();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Dry run, with the server guessing the mapping unless one is given
+  const checkFile = async (selected: File, mapping?: ImportMapping) => {
+    try {
+      setIsChecking(true);
+      setReport(await importEstablishments(selected, { dryRun: true, mapping }));
+    } catch (error: any) {
+      setReport(null);
+      toast({
+        title: "Error reading file",
+        description: error.message || "The file could not be checked",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFileSelect = (selected: File) => {
+    setFile(selected);
+    checkFile(selected);
+  };
+
+  const handleMappingChange = (column: string, value: string) => {
+    if (!file || !report) return;
+    checkFile(file, { ...report.mapping, [column]: value === IGNORED ? null : value as ImportField });
+  };
+
+  const handleImport = async () => {
+    if (!file || !report) return;
+
+    try {
+      setIsImporting(true);
+      const result = await importEstablishments(file, { dryRun: false, mapping: report.mapping });
+      setReport(result);
+      toast({
+        title: "Import complete",
+        description: `${result.created} establishment${result.created === 1 ? "" : "s"} added`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error importing",
+        description: error.message || "Nothing was imported",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const startOver = () => {
+    setFile(null);
+    setReport(null);
+  };
+
+  const renderDetails = (row: ImportRow) => {
+    if (row.establishmentId !== undefined) {
+      return (
+        <Link href={`/establishments/${row.establishmentId}`} className="text-primary hover:underline">
+          View establishment
+        </Link>
+      );
+    }
+    if (row.duplicateOf && "establishmentId" in row.duplicateOf) {
+      return (
+        <>
+          Already listed as{" "}
+          <Link href={`/establishments/${row.duplicateOf.establishmentId}`} className="text-primary hover:underline">
+            this establishment
+          </Link>
+        </>
+      );
+    }
+    if (row.duplicateOf) {
+      return `Repeats row ${row.duplicateOf.row}`;
+    }
+    if (row.newLocations?.length) {
+      return `Adds ${row.newLocations.join(" › ")} to the locations`;
+    }
+    return (
+      <ul className="space-y-1">
+        {row.errors.map((error, index) => (
+          <li key={index}>
+            {error.path.length > 0 && <span className="font-medium">{formatLabel(String(error.path[0]))}: </span>}
+            {error.message}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const isBusy = isChecking || isImporting;
+
+  return (
+    <>
+      <Helmet>
+        <title>Import establishments | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <h1 className="text-3xl font-semibold mb-2">Import establishments</h1>
+          <p className="text-muted-foreground mb-8">
+            Upload a CSV or Excel sheet with one establishment per row and the column names in the first row.
+            Nothing is added until you have checked the report and confirmed.
+          </p>
+
+          {!can("establishment:create") ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">Nothing to show</h3>
+              <p className="text-muted-foreground">Your role cannot add establishments.</p>
+            </div>
+          ) : !report ? (
+            <div className="max-w-xl">
+              <FileUpload
+                onFileSelect={handleFileSelect}
+                accept=".csv,.xlsx"
+                maxFileSize={5 * 1024 * 1024} // 5MB
+                label={isChecking ? "Checking..." : "Upload a sheet"}
+                description="CSV or XLSX up to 5MB and 2000 rows"
+                icon={<FileSpreadsheet className="h-10 w-10" />}
+              />
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{file?.name}</span>
+                  {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                    <Badge key={status} variant={STATUS_VARIANTS[status]}>
+                      {report.counts[status]} {STATUS_LABELS[status].toLowerCase()}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={startOver} disabled={isBusy}>
+                    {report.dryRun ? "Choose another file" : "Import another file"}
+                  </Button>
+                  {report.dryRun && (
+                    <Button onClick={handleImport} disabled={isBusy || report.counts.valid === 0}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      {isImporting ? "Importing..." : `Import ${report.counts.valid} establishment${report.counts.valid === 1 ? "" : "s"}`}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {report.dryRun && (
+                <section>
+                  <h2 className="text-xl font-medium mb-1">Columns</h2>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Choose the field each column fills. Name, category and city are required.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {report.columns.map((column, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="w-1/2 truncate text-sm font-medium" title={column}>{column || `Column ${index + 1}`}</span>
+                        <Select
+                          value={report.mapping[column] ?? IGNORED}
+                          onValueChange={(value) => handleMappingChange(column, value)}
+                          disabled={isBusy}
+                        >
+                          <SelectTrigger className="w-1/2">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORED}>Ignore</SelectItem>
+                            {IMPORT_FIELDS.map((field) => (
+                              <SelectItem key={field} value={field}>{formatLabel(field)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              <section>
+                <h2 className="text-xl font-medium mb-4">{report.dryRun ? "Rows" : `Imported ${report.created} establishments`}</h2>
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[80px]">Row</TableHead>
+                          <TableHead>Name</TableHead>
+                          <TableHead className="w-[120px]">Status</TableHead>
+                          <TableHead>Details</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.rows.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">
+                              The sheet has no rows below its header.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          report.rows.map((row) => (
+                            <TableRow key={row.row}>
+                              <TableCell>{row.row}</TableCell>
+                              <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                              <TableCell>
+                                <Badge variant={STATUS_VARIANTS[row.status]}>
+                                  {row.establishmentId !== undefined ? "Imported" : STATUS_LABELS[row.status]}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">{renderDetails(row)}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import Header from "@/components/layout/Header";
+import HighlightedText from "@/components/HighlightedText";
+import TermBadge from "@/components/TermBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Search as SearchIcon, MapPin, Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { fetchEstablishments } from "@/lib/adapters";
+import type { FirebaseEstablishment } from "@shared/schema";
+import { Helmet } from "react-helmet";
+
+const PAGE_SIZE = 20;
+
+export default function Search() {
+  const searchParams = new URLSearchParams(useSearch());
+  const q = searchParams.get("q")?.trim() ?? "";
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { getCategory } = useTaxonomy();
+  const [query, setQuery] = useState(q);
+  const [results, setResults] = useState<FirebaseEstablishment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load a page of results, appending to the current list when continuing from a cursor
+  const loadResults = async (cursor?: string) => {
+    if (!q) {
+      setResults([]);
+      setTotal(0);
+      setNextCursor(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const page = await fetchEstablishments({ q }, "Relevance", { limit: PAGE_SIZE, cursor });
+      setResults((current) => (cursor ? [...current, ...page.items] : page.items));
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (error: any) {
+      toast({
+        title: "Search failed",
+        description: error.message || "There was an error searching establishments",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Search again whenever the query in the URL changes
+  useEffect(() => {
+    setQuery(q);
+    loadResults();
+  }, [q]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    navigate(trimmed ? `/search?q=${encodeURIComponent(trimmed)}` : "/search");
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>{q ? `Search: ${q}` : "Search"} | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <h1 className="text-3xl font-semibold mb-6">Search</h1>
+
+          <form onSubmit={handleSubmit} className="mb-8 flex gap-2 max-w-xl">
+            <div className="relative flex-1">
+              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                <SearchIcon className="text-gray-500 h-4 w-4" />
+              </div>
+              <Input
+                type="search"
+                className="pl-10"
+                placeholder="Search by name, description, category or location"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                aria-label="Search establishments"
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+
+          {q && !isLoading && (
+            <p className="mb-4 text-sm text-muted-foreground">
+              {total} {total === 1 ? "result" : "results"} for "{q}"
+            </p>
+          )}
+
+          {isLoading && results.length === 0 ? (
+            <div className="space-y-4">
+              {[...Array(4)].map((_, index) => (
+                <Card key={index}>
+                  <CardContent className="p-4">
+                    <Skeleton className="h-6 w-1/3 mb-2" />
+                    <Skeleton className="h-4 w-1/4 mb-3" />
+                    <Skeleton className="h-12 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : results.length > 0 ? (
+            <div className="space-y-4">
+              {results.map((establishment) => (
+                <Link key={establishment.id} href={`/establishments/${establishment.id}`}>
+                  <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <HighlightedText
+                          text={establishment.highlights?.name ?? establishment.name}
+                          className="text-lg font-semibold"
+                        />
+                        <div className="flex items-center shrink-0">
+                          <Star className="h-4 w-4 fill-current text-yellow-500 mr-1" />
+                          <span className="text-sm font-medium">
+                            {establishment.rating !== null ? establishment.rating.toFixed(1) : "New"}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="mt-1 mb-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                        <TermBadge term={getCategory(establishment.category)} slug={establishment.category} />
+                        <MapPin className="h-4 w-4" />
+                        {establishment.location}
+                      </div>
+                      {establishment.highlights?.description && (
+                        <HighlightedText
+                          text={establishment.highlights.description}
+                          className="text-sm text-gray-700 dark:text-gray-300"
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+
+              {nextCursor && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" disabled={isLoading} onClick={() => loadResults(nextCursor)}>
+                    {isLoading ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : q ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">No establishments found</h3>
+              <p className="text-muted-foreground">Try different or fewer words.</p>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">Enter a search term to find establishments.</p>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/layout/Header";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchTrash, restoreFromTrash, purgeFromTrash, type TrashContents } from "@/lib/adapters";
+import { format } from "date-fns";
+import { Helmet } from "react-helmet";
+
+type TrashKind = "establishments" | "attachments";
+
+// An item picked for restoring or purging
+type TrashItem = { kind: TrashKind; id: number; name: string };
+
+function formatDeletedAt(deletedAt: Date | string | null): string {
+  return deletedAt ? format(new Date(deletedAt), "MMM d, yyyy HH:mm") : "";
+}
+
+export default function TrashPage() {
+  const { profile, can } = useAuth();
+  const { toast } = useToast();
+  const [trash, setTrash] = useState<TrashContents>({ establishments: [], attachments: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  // Load the trash
+  useEffect(() => {
+    const loadTrash = async () => {
+      if (!can("establishment:delete")) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setTrash(await fetchTrash());
+      setIsLoading(false);
+    };
+
+    loadTrash();
+  }, [profile]);
+
+  const removeFromList = ({ kind, id }: TrashItem) => {
+    setTrash((current) => kind === "establishments"
+      ? { ...current, establishments: current.establishments.filter((establishment) => establishment.id !== id) }
+      : { ...current, attachments: current.attachments.filter((attachment) => attachment.id !== id) });
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash(item.kind, item.id);
+      removeFromList(item);
+      toast({ title: "Restored", description: `${item.name} has been restored` });
+    } catch (error: any) {
+      toast({
+        title: "Error restoring",
+        description: error.message || `There was an error restoring ${item.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purging) return;
+
+    try {
+      await purgeFromTrash(purging.kind, purging.id);
+      removeFromList(purging);
+      toast({ title: "Permanently deleted", description: `${purging.name} has been permanently deleted` });
+    } catch (error: any) {
+      toast({
+        title: "Error deleting permanently",
+        description: error.message || `There was an error deleting ${purging.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setPurging(null);
+    }
+  };
+
+  const renderActions = (item: TrashItem, canManage: boolean) =>
+    canManage && (
+      <>
+        <Button variant="ghost" size="sm" onClick={() => handleRestore(item)}>
+          <RotateCcw className="mr-1 h-4 w-4" /> Restore
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setPurging(item)} aria-label={`Permanently delete ${item.name}`}>
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </>
+    );
+
+  const renderLoadingRows = (columns: number) =>
+    [...Array(3)].map((_, index) => (
+      <TableRow key={index}>
+        <TableCell colSpan={columns}>
+          <Skeleton className="h-6 w-full" />
+        </TableCell>
+      </TableRow>
+    ));
+
+  return (
+    <>
+      <Helmet>
+        <title>Trash | EstablishmentDir</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Header />
+
+        <main className="container mx-auto px-4 py-8 flex-1">
+          <h1 className="text-3xl font-semibold mb-2">Trash</h1>
+          <p className="text-muted-foreground mb-8">
+            Deleted establishments and files stay here until you restore them or delete them permanently.
+          </p>
+
+          {!can("establishment:delete") ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">Nothing to show</h3>
+              <p className="text-muted-foreground">Your role cannot delete establishments, so it has no trash.</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <section>
+                <h2 className="text-xl font-medium mb-4">Establishments</h2>
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Address</TableHead>
+                          <TableHead>Deleted</TableHead>
+                          <TableHead className="w-[180px]" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {isLoading ? renderLoadingRows(4) : trash.establishments.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">
+                              No deleted establishments.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          trash.establishments.map((establishment) => (
+                            <TableRow key={establishment.id}>
+                              <TableCell className="font-medium">{establishment.name}</TableCell>
+                              <TableCell>{establishment.location}</TableCell>
+                              <TableCell>{formatDeletedAt(establishment.deletedAt)}</TableCell>
+                              <TableCell className="text-right">
+                                {renderActions(
+                                  { kind: "establishments", id: establishment.id, name: establishment.name },
+                                  establishment.permissions.canDelete
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </section>
+
+              <section>
+                <h2 className="text-xl font-medium mb-4">Files</h2>
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>File</TableHead>
+                          <TableHead>Establishment</TableHead>
+                          <TableHead>Deleted</TableHead>
+                          <TableHead className="w-[180px]" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {isLoading ? renderLoadingRows(4) : trash.attachments.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">
+                              No deleted files.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          trash.attachments.map((attachment) => (
+                            <TableRow key={attachment.id}>
+                              <TableCell className="font-medium">
+                                {attachment.fileName}
+                                <span className="ml-2 text-xs text-muted-foreground">{attachment.fileSize}</span>
+                              </TableCell>
+                              <TableCell>
+                                <Link href={`/establishments/${attachment.establishmentId}`} className="text-primary hover:underline">
+                                  View establishment
+                                </Link>
+                              </TableCell>
+                              <TableCell>{formatDeletedAt(attachment.deletedAt)}</TableCell>
+                              <TableCell className="text-right">
+                                {renderActions(
+                                  { kind: "attachments", id: attachment.id, name: attachment.fileName },
+                                  attachment.permissions.canDelete
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete {purging?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging?.kind === "establishments"
+                ? "Its files, reviews and opening hours are deleted with it. This cannot be undone."
+                : "The file is removed from storage. This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete permanently</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
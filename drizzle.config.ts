@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Tables managed outside the schema: express-session's store and the data migration log
+  tablesFilter: ["!session", "!data_migrations"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
@@ -0,0 +1,203 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { storage, DuplicateUserError } from "./storage";
+import { comparePasswords } from "./passwords";
+import { verifyFirebaseToken, getFirebaseProjectId, FirebaseTokenError, type FirebaseTokenClaims } from "./firebase";
+import type { User as SelectUser, InsertUser, PublicUser, ResourcePermissions, WithPermissions } from "@shared/schema";
+import { can, type PermissionAction } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Strip the password hash before a user leaves the server
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Accounts listed in ADMIN_EMAILS become admins when they are first created, once Firebase
+// has verified the address; an unverified one proves nothing about who holds it
+function isBootstrapAdmin(email: string): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.toLowerCase());
+}
+
+// Create a user, granting the admin role to bootstrap admins whose email is verified
+async function createUserWithRole(user: InsertUser, emailVerified: boolean): Promise<SelectUser> {
+  const created = await storage.createUser(user);
+  if (emailVerified && isBootstrapAdmin(created.email)) {
+    return (await storage.updateUserRole(created.id, "admin")) ?? created;
+  }
+  return created;
+}
+
+// Look up the users row for a Firebase account, creating or linking it on first sight
+export async function findOrCreateFirebaseUser(claims: FirebaseTokenClaims): Promise<SelectUser> {
+  const existing = await storage.getUserByFirebaseUid(claims.uid);
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await createFirebaseUser(claims);
+  } catch (error) {
+    if (!(error instanceof DuplicateUserError)) throw error;
+
+    // A request racing this one may have created or linked the same account first
+    const created = await storage.getUserByFirebaseUid(claims.uid);
+    if (created) {
+      return created;
+    }
+    throw new FirebaseTokenError("Email address is already registered to another account");
+  }
+}
+
+async function createFirebaseUser(claims: FirebaseTokenClaims): Promise<SelectUser> {
+  if (!claims.email) {
+    throw new FirebaseTokenError("Firebase account has no email address");
+  }
+
+  // Only adopt a local account when Firebase has verified the shared email
+  const byEmail = await storage.getUserByEmail(claims.email);
+  if (byEmail) {
+    if (!claims.emailVerified || byEmail.firebaseUid) {
+      throw new FirebaseTokenError("Email address is already registered to another account");
+    }
+    const linked = await storage.linkFirebaseUid(byEmail.id, claims.uid);
+    return linked!;
+  }
+
+  return createUserWithRole({
+    username: claims.email,
+    email: claims.email,
+    password: null,
+    firebaseUid: claims.uid,
+    displayName: claims.displayName,
+    photoURL: claims.photoURL,
+  }, claims.emailVerified);
+}
+
+// Sign the request in from a Firebase ID token sent as "Authorization: Bearer <token>"
+export async function authenticateFirebase(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+  if (!getFirebaseProjectId()) {
+    return res.status(503).json({ error: "Firebase sign-in is not configured on this server" });
+  }
+
+  try {
+    const claims = await verifyFirebaseToken(header.slice("Bearer ".length).trim());
+    req.user = await findOrCreateFirebaseUser(claims);
+    next();
+  } catch (error) {
+    if (error instanceof FirebaseTokenError) {
+      return res.status(401).json({ error: error.message });
+    }
+    next(error);
+  }
+}
+
+type PermissionResource = "establishment" | "attachment" | "review";
+
+export function getPermissions(
+  user: Express.User | undefined,
+  resource: PermissionResource,
+  ownerId: number
+): ResourcePermissions {
+  return {
+    canEdit: can(user, `${resource}:update`, ownerId),
+    canDelete: can(user, `${resource}:delete`, ownerId),
+  };
+}
+
+// Annotate a record with what the calling user may do with it
+export function withPermissions<T extends { userId: number }>(
+  user: Express.User | undefined,
+  resource: PermissionResource,
+  record: T
+): WithPermissions<T> {
+  return { ...record, permissions: getPermissions(user, resource, record.userId) };
+}
+
+// Reject the request unless the user's role allows the action on at least some records
+export function requirePermission(action: PermissionAction) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!can(req.user, action)) {
+      return res.status(403).json({ error: "Your role does not allow this action" });
+    }
+    next();
+  };
+}
+
+// Reject the request with 401 unless a user is signed in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+  if (!getFirebaseProjectId()) {
+    console.warn("FIREBASE_PROJECT_ID is not set; requests signed in with Firebase will be refused");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", authenticateFirebase);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user?.password || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
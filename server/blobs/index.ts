@@ -0,0 +1,74 @@
+import path from "path";
+import { randomBytes } from "crypto";
+import { LocalBlobStore } from "./local";
+import { S3BlobStore } from "./s3";
+import { SupabaseBlobStore } from "./supabase";
+import type { BlobStore } from "./types";
+
+export * from "./types";
+
+function requireEnv(name: string, value: string | undefined): string {
+  if (!value) {
+    throw new Error(`${name} must be set when BLOB_STORE=${process.env.BLOB_STORE}`);
+  }
+  return value;
+}
+
+// Build the blob store selected by BLOB_STORE (local, s3 or supabase)
+export function createBlobStore(driver = process.env.BLOB_STORE || "local"): BlobStore {
+  switch (driver) {
+    case "local":
+      return new LocalBlobStore(path.resolve(process.env.BLOB_LOCAL_DIR || process.env.UPLOAD_DIR || "uploads"));
+    case "s3":
+      return new S3BlobStore({
+        bucket: requireEnv("S3_BUCKET", process.env.S3_BUCKET),
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    case "supabase":
+      return new SupabaseBlobStore({
+        url: requireEnv("SUPABASE_URL", process.env.SUPABASE_URL || process.env.VITE_NEXT_PUBLIC_SUPABASE_URL),
+        serviceRoleKey: requireEnv("SUPABASE_SERVICE_ROLE_KEY", process.env.SUPABASE_SERVICE_ROLE_KEY),
+        bucket: process.env.SUPABASE_BUCKET || "attachments",
+      });
+    default:
+      throw new Error(`Unknown BLOB_STORE "${driver}", expected local, s3 or supabase`);
+  }
+}
+
+export const blobStore = createBlobStore();
+
+// Build a unique key for a new attachment of an establishment
+export function attachmentBlobKey(establishmentId: number, originalName: string): string {
+  const ext = path.extname(originalName).toLowerCase();
+  return `establishments/${establishmentId}/${Date.now()}_${randomBytes(6).toString("hex")}${ext}`;
+}
+
+// URL the API serves a stored blob from
+export function getBlobUrl(key: string): string {
+  return `/api/files/${key}`;
+}
+
+// Recover the blob key from a legacy Supabase public URL, e.g.
+// https://x.supabase.co/storage/v1/object/public/attachments/establishments/3/a.pdf
+export function keyFromLegacyFilePath(filePath: string): string | null {
+  try {
+    const match = new URL(filePath).pathname.match(/\/storage\/v1\/object\/public\/[^/]+\/(.+)$/);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Delete the blobs behind removed attachments; failures are logged, not thrown
+export async function removeBlobs(keys: (string | null)[]): Promise<void> {
+  for (const key of keys) {
+    if (!key) continue;
+    await blobStore.delete(key).catch((error) => {
+      console.error(`Failed to delete blob ${key}:`, error);
+    });
+  }
+}
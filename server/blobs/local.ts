@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+import { BlobStoreError, type BlobInfo, type BlobStore, type PutBlobOptions } from "./types";
+
+// Keeps blobs as plain files under a root directory
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  // Resolve a key inside the root, refusing keys that escape it
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new BlobStoreError(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Readable, _options: PutBlobOptions): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await pipeline(body, fs.createWriteStream(filePath, { flags: "wx" }));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw new BlobStoreError(`Failed to write blob ${key}`, { cause: error });
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async *list(prefix: string): AsyncIterable<BlobInfo> {
+    yield* this.walk(this.root, prefix);
+  }
+
+  private async *walk(dir: string, prefix: string): AsyncIterable<BlobInfo> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const key = path.relative(this.root, fullPath).split(path.sep).join("/");
+
+      if (entry.isDirectory()) {
+        // Only descend into directories that can still contain matching keys
+        if (key.startsWith(prefix) || prefix.startsWith(`${key}/`)) {
+          yield* this.walk(fullPath, prefix);
+        }
+      } else if (entry.isFile() && key.startsWith(prefix)) {
+        const stats = await fs.promises.stat(fullPath);
+        yield { key, size: stats.size, lastModified: stats.mtime };
+      }
+    }
+  }
+}
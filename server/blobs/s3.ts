@@ -0,0 +1,90 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import type { Readable } from "stream";
+import { BlobStoreError, type BlobInfo, type BlobStore, type PutBlobOptions } from "./types";
+
+export type S3BlobStoreConfig = {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+};
+
+// Keeps blobs in an S3 (or S3-compatible) bucket
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(config: S3BlobStoreConfig) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Readable, options: PutBlobOptions): Promise<void> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ContentLength: options.size,
+      }));
+    } catch (error) {
+      throw new BlobStoreError(`Failed to write blob ${key}`, { cause: error });
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return (result.Body as Readable | undefined) ?? null;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw new BlobStoreError(`Failed to read blob ${key}`, { cause: error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    } catch (error) {
+      throw new BlobStoreError(`Failed to delete blob ${key}`, { cause: error });
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<BlobInfo> {
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        yield { key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? null };
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
@@ -0,0 +1,98 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { BlobStoreError, type BlobInfo, type BlobStore, type PutBlobOptions } from "./types";
+
+const LIST_PAGE_SIZE = 1000;
+
+export type SupabaseBlobStoreConfig = {
+  url: string;
+  serviceRoleKey: string;
+  bucket: string;
+};
+
+// Keeps blobs in a Supabase Storage bucket, using the service role key
+export class SupabaseBlobStore implements BlobStore {
+  private readonly client: SupabaseClient;
+  private readonly bucket: string;
+
+  constructor(config: SupabaseBlobStoreConfig) {
+    this.bucket = config.bucket;
+    this.client = createClient(config.url, config.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  async put(key: string, body: Readable, options: PutBlobOptions): Promise<void> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(key, body, {
+        contentType: options.contentType,
+        cacheControl: "3600",
+        upsert: false,
+        duplex: "half",
+      });
+
+    if (error) {
+      throw new BlobStoreError(`Failed to write blob ${key}: ${error.message}`, { cause: error });
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).download(key);
+
+    if (error) {
+      // Supabase reports a missing object as a 400/404 StorageApiError
+      if ("status" in error && (error.status === 400 || error.status === 404)) {
+        return null;
+      }
+      throw new BlobStoreError(`Failed to read blob ${key}: ${error.message}`, { cause: error });
+    }
+    return Readable.fromWeb(data.stream() as WebReadableStream);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.client.storage.from(this.bucket).remove([key]);
+
+    if (error) {
+      throw new BlobStoreError(`Failed to delete blob ${key}: ${error.message}`, { cause: error });
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<BlobInfo> {
+    // Supabase lists one folder at a time, so walk down from the prefix's folder
+    const folder = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+    yield* this.walk(folder, prefix);
+  }
+
+  private async *walk(folder: string, prefix: string): AsyncIterable<BlobInfo> {
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await this.client.storage
+        .from(this.bucket)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+      if (error) {
+        throw new BlobStoreError(`Failed to list blobs in ${folder || "/"}: ${error.message}`, { cause: error });
+      }
+
+      for (const item of data) {
+        const key = folder ? `${folder}/${item.name}` : item.name;
+
+        // Folders come back without an id
+        if (item.id === null) {
+          if (key.startsWith(prefix) || prefix.startsWith(`${key}/`)) {
+            yield* this.walk(key, prefix);
+          }
+        } else if (key.startsWith(prefix)) {
+          yield {
+            key,
+            size: item.metadata?.size ?? 0,
+            lastModified: item.updated_at ? new Date(item.updated_at) : null,
+          };
+        }
+      }
+
+      if (data.length < LIST_PAGE_SIZE) return;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import type { Readable } from "stream";
+
+export type PutBlobOptions = {
+  contentType: string;
+  size: number;
+};
+
+export type BlobInfo = {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+};
+
+/**
+ * A place to keep attachment bytes. Keys are "/"-separated paths such as
+ * "establishments/12/1715000000000_ab12cd.pdf".
+ */
+export interface BlobStore {
+  put(key: string, body: Readable, options: PutBlobOptions): Promise<void>;
+  // Resolves to null when no blob exists under the key
+  get(key: string): Promise<Readable | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  // Every blob whose key starts with the prefix, in no particular order
+  list(prefix: string): AsyncIterable<BlobInfo>;
+}
+
+export class BlobStoreError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "BlobStoreError";
+  }
+}
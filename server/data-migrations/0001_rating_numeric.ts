@@ -0,0 +1,34 @@
+import { sql } from "drizzle-orm";
+import type { DataMigration } from "./types";
+
+// establishments.rating was free text; convert it to numeric(2, 1), nulling values that are not a 0-5 number
+export const ratingNumeric: DataMigration = {
+  id: "0001_rating_numeric",
+  async up(tx) {
+    const column = await tx.execute<{ data_type: string }>(sql`
+      select data_type from information_schema.columns
+      where table_name = 'establishments' and column_name = 'rating'
+    `);
+
+    // Databases created after the change already have the numeric column
+    if (column.rows[0]?.data_type !== "text") return;
+
+    const invalid = await tx.execute<{ id: number; rating: string }>(sql`
+      select id, rating from establishments
+      where rating is not null
+        and (trim(rating) !~ '^[0-9]+(\\.[0-9]+)?$' or trim(rating)::numeric > 5)
+    `);
+    for (const row of invalid.rows) {
+      console.warn(`  establishment ${row.id}: clearing unparseable rating ${JSON.stringify(row.rating)}`);
+    }
+
+    await tx.execute(sql`alter table establishments alter column rating drop default`);
+    await tx.execute(sql`
+      alter table establishments alter column rating type numeric(2, 1) using (
+        case
+          when trim(rating) ~ '^[0-9]+(\\.[0-9]+)?$' and trim(rating)::numeric <= 5 then round(trim(rating)::numeric, 1)
+        end
+      )
+    `);
+  },
+};
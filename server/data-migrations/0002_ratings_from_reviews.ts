@@ -0,0 +1,15 @@
+import { sql } from "drizzle-orm";
+import type { DataMigration } from "./types";
+
+// Ratings used to be picked by the establishment's creator; they now average the reviews, of which there are none yet
+export const ratingsFromReviews: DataMigration = {
+  id: "0002_ratings_from_reviews",
+  async up(tx) {
+    // Nothing to clear on a database that has not been pushed yet
+    const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('establishments') is not null as exists`);
+    if (!table.rows[0]?.exists) return;
+
+    const result = await tx.execute(sql`update establishments set rating = null where rating is not null`);
+    console.log(`  cleared ${result.rowCount ?? 0} creator-picked rating(s)`);
+  },
+};
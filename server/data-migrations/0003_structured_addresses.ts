@@ -0,0 +1,56 @@
+import { sql } from "drizzle-orm";
+import { formatAddress } from "@shared/schema";
+import type { DataMigration } from "./types";
+
+// The districts the location field used to offer
+const LEGACY_DISTRICTS = ["Downtown", "Uptown", "Midtown", "Suburban"];
+
+// Split a free-text location such as "Downtown, 123 Main St" into a district and a street
+function splitLocation(location: string): { street: string | null; district: string | null } {
+  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
+  const index = parts.findIndex((part) =>
+    LEGACY_DISTRICTS.some((option) => option.toLowerCase() === part.toLowerCase())
+  );
+  if (index === -1) {
+    return { street: parts.join(", ") || null, district: null };
+  }
+
+  const district = LEGACY_DISTRICTS.find((option) => option.toLowerCase() === parts[index].toLowerCase())!;
+  const street = parts.filter((_, i) => i !== index).join(", ") || null;
+  return { street, district };
+}
+
+// Establishments now keep a structured address; location becomes its one-line form
+export const structuredAddresses: DataMigration = {
+  id: "0003_structured_addresses",
+  async up(tx) {
+    // A database that has not been pushed yet gets the columns from db:push
+    const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('establishments') is not null as exists`);
+    if (!table.rows[0]?.exists) return;
+
+    // Added here rather than by db:push, which runs afterwards, so the old locations can be split into them
+    await tx.execute(sql`
+      alter table establishments
+        add column if not exists street text,
+        add column if not exists district text,
+        add column if not exists city text,
+        add column if not exists postal_code text,
+        add column if not exists country text
+    `);
+
+    const rows = await tx.execute<{ id: number; location: string }>(sql`
+      select id, location from establishments
+      where street is null and district is null and city is null and postal_code is null and country is null
+    `);
+
+    for (const row of rows.rows) {
+      const address = splitLocation(row.location);
+      await tx.execute(sql`
+        update establishments
+        set street = ${address.street}, district = ${address.district}, location = ${formatAddress(address)}
+        where id = ${row.id}
+      `);
+    }
+    console.log(`  split ${rows.rows.length} location(s) into street and district`);
+  },
+};
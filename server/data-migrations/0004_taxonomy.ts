@@ -0,0 +1,56 @@
+import { sql } from "drizzle-orm";
+import { DEFAULT_TERM_COLOR, slugify } from "@shared/schema";
+import type { DataMigration } from "./types";
+
+// The categories that used to be hardcoded, with the colours their badges had
+const SEED_CATEGORIES = [
+  { name: "Restaurant", slug: "restaurant", color: "#2563eb" },
+  { name: "Retail", slug: "retail", color: "#16a34a" },
+  { name: "Services", slug: "services", color: "#9333ea" },
+  { name: "Entertainment", slug: "entertainment", color: "#dc2626" },
+];
+
+// Categories move from a fixed list to a table; establishments refer to them by slug
+export const taxonomy: DataMigration = {
+  id: "0004_taxonomy",
+  async up(tx) {
+    // Created here rather than by db:push, which runs afterwards and adds the foreign key from establishments
+    await tx.execute(sql`
+      create table if not exists categories (
+        id serial primary key,
+        name text not null,
+        slug text not null constraint categories_slug_unique unique,
+        color text not null default ${sql.raw(`'${DEFAULT_TERM_COLOR}'`)},
+        icon text,
+        parent_id integer,
+        created_at timestamp default now()
+      )
+    `);
+
+    for (const category of SEED_CATEGORIES) {
+      await tx.execute(sql`
+        insert into categories (name, slug, color)
+        values (${category.name}, ${category.slug}, ${category.color})
+        on conflict (slug) do nothing
+      `);
+    }
+
+    // Nothing to convert on a database that has not been pushed yet
+    const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('establishments') is not null as exists`);
+    if (!table.rows[0]?.exists) return;
+
+    const rows = await tx.execute<{ category: string }>(sql`select distinct category from establishments`);
+    let converted = 0;
+
+    for (const { category } of rows.rows) {
+      const slug = slugify(category);
+      if (!slug || slug === category) continue;
+
+      // Any other category names in use become categories of their own
+      await tx.execute(sql`insert into categories (name, slug) values (${category}, ${slug}) on conflict (slug) do nothing`);
+      const result = await tx.execute(sql`update establishments set category = ${slug} where category = ${category}`);
+      converted += result.rowCount ?? 0;
+    }
+    console.log(`  pointed ${converted} establishment(s) at category slugs`);
+  },
+};
@@ -0,0 +1,59 @@
+import { sql } from "drizzle-orm";
+import type { DataMigration } from "./types";
+
+// File existing establishments under a location tree built from the cities and districts in their addresses
+export const locationTree: DataMigration = {
+  id: "0005_location_tree",
+  async up(tx) {
+    // A database that has not been pushed yet gets the table and column from db:push
+    const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('establishments') is not null as exists`);
+    if (!table.rows[0]?.exists) return;
+
+    // Added here rather than by db:push, which runs afterwards and adds the foreign keys
+    await tx.execute(sql`
+      create table if not exists locations (
+        id serial primary key,
+        name text not null,
+        kind text not null,
+        parent_id integer,
+        created_at timestamp default now()
+      )
+    `);
+    await tx.execute(sql`alter table establishments add column if not exists location_id integer`);
+
+    const places = await tx.execute<{ city: string; district: string | null }>(sql`
+      select distinct trim(city) as city, nullif(trim(district), '') as district from establishments
+      where location_id is null and nullif(trim(city), '') is not null
+      order by 1, 2
+    `);
+
+    // Matched case-insensitively, so "paris" and "Paris" share a node
+    const findOrCreate = async (name: string, kind: string, parentId: number | null): Promise<number> => {
+      const existing = await tx.execute<{ id: number }>(sql`
+        select id from locations
+        where lower(name) = lower(${name}) and kind = ${kind} and parent_id is not distinct from ${parentId}
+        order by id limit 1
+      `);
+      if (existing.rows[0]) return existing.rows[0].id;
+
+      const created = await tx.execute<{ id: number }>(sql`
+        insert into locations (name, kind, parent_id) values (${name}, ${kind}, ${parentId}) returning id
+      `);
+      return created.rows[0].id;
+    };
+
+    let filed = 0;
+    for (const place of places.rows) {
+      const cityId = await findOrCreate(place.city, "city", null);
+      const locationId = place.district ? await findOrCreate(place.district, "district", cityId) : cityId;
+
+      const result = await tx.execute(sql`
+        update establishments set location_id = ${locationId}
+        where location_id is null and trim(city) = ${place.city}
+          and nullif(trim(district), '') is not distinct from ${place.district}
+      `);
+      filed += result.rowCount ?? 0;
+    }
+    console.log(`  filed ${filed} establishment(s) under ${places.rows.length} location(s)`);
+  },
+};
@@ -0,0 +1,28 @@
+import { sql } from "drizzle-orm";
+import { hashPassword } from "../passwords";
+import type { DataMigration } from "./types";
+
+// What hashPassword stores: a 64-byte scrypt hash and a 16-byte salt, in hex
+const HASHED = /^[0-9a-f]{128}\.[0-9a-f]{32}$/;
+
+// Passwords used to be stored as typed; sign-in now only compares hashes, so hash the old ones in place
+export const hashPasswords: DataMigration = {
+  id: "0006_hash_passwords",
+  async up(tx) {
+    const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('users') is not null as exists`);
+    if (!table.rows[0]?.exists) return;
+
+    const users = await tx.execute<{ id: number; password: string }>(sql`
+      select id, password from users where password is not null
+    `);
+
+    let hashed = 0;
+    for (const user of users.rows) {
+      if (HASHED.test(user.password)) continue;
+
+      await tx.execute(sql`update users set password = ${await hashPassword(user.password)} where id = ${user.id}`);
+      hashed++;
+    }
+    console.log(`  hashed ${hashed} plaintext password(s)`);
+  },
+};
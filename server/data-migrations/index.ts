@@ -0,0 +1,19 @@
+import type { DataMigration } from "./types";
+import { ratingNumeric } from "./0001_rating_numeric";
+import { ratingsFromReviews } from "./0002_ratings_from_reviews";
+import { structuredAddresses } from "./0003_structured_addresses";
+import { taxonomy } from "./0004_taxonomy";
+import { locationTree } from "./0005_location_tree";
+import { hashPasswords } from "./0006_hash_passwords";
+
+export type { DataMigration, Transaction } from "./types";
+
+// Applied in this order; append new migrations to the end
+export const dataMigrations: DataMigration[] = [
+  ratingNumeric,
+  ratingsFromReviews,
+  structuredAddresses,
+  taxonomy,
+  locationTree,
+  hashPasswords,
+];
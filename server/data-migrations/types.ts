@@ -0,0 +1,14 @@
+import type { db } from "../db";
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * A one-off change to existing data or column types that `drizzle-kit push`
+ * cannot make on its own. Each runs once, inside a transaction, before the
+ * schema is pushed.
+ */
+export type DataMigration = {
+  // Recorded in data_migrations once applied; never rename
+  id: string;
+  up(tx: Transaction): Promise<void>;
+};
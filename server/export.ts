@@ -0,0 +1,132 @@
+import ExcelJS from "exceljs";
+import type { Response } from "express";
+import { storage, type EstablishmentFilters } from "./storage";
+import { MAX_PAGE_SIZE, type EstablishmentListItem, type ExportFormat } from "@shared/schema";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+type Value = string | number | string[] | null;
+
+// Named as the import expects, so an export can be edited and imported elsewhere
+const COLUMNS: { header: string; value: (establishment: EstablishmentListItem) => Value }[] = [
+  { header: "id", value: (establishment) => establishment.id },
+  { header: "name", value: (establishment) => establishment.name },
+  { header: "category", value: (establishment) => establishment.category },
+  { header: "tags", value: (establishment) => establishment.tags ?? [] },
+  { header: "description", value: (establishment) => establishment.description },
+  { header: "street", value: (establishment) => establishment.street },
+  { header: "district", value: (establishment) => establishment.district },
+  { header: "city", value: (establishment) => establishment.city },
+  { header: "postalCode", value: (establishment) => establishment.postalCode },
+  { header: "country", value: (establishment) => establishment.country },
+  { header: "latitude", value: (establishment) => establishment.latitude },
+  { header: "longitude", value: (establishment) => establishment.longitude },
+  { header: "timezone", value: (establishment) => establishment.timezone },
+  { header: "rating", value: (establishment) => establishment.rating },
+  { header: "reviewCount", value: (establishment) => establishment.reviewCount },
+  { header: "createdAt", value: (establishment) => establishment.createdAt?.toISOString() ?? null },
+];
+
+// Every establishment the list would show, a page at a time so no export holds them all
+async function* matchingEstablishments(filters: EstablishmentFilters, sortBy?: string): AsyncGenerator<EstablishmentListItem> {
+  let cursor: string | undefined;
+  do {
+    const page = await storage.getEstablishments(filters, sortBy, { limit: MAX_PAGE_SIZE, cursor });
+    yield* page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+// Wait for the client to catch up; false once it has gone away
+async function write(res: Response, chunk: string): Promise<boolean> {
+  if (res.destroyed) return false;
+  if (res.write(chunk)) return true;
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+  return !res.destroyed;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: Value): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+
+  let text = Array.isArray(value) ? value.join(", ") : value;
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsv(res: Response, establishments: AsyncIterable<EstablishmentListItem>) {
+  // The byte order mark tells Excel the file is UTF-8
+  if (!(await write(res, `\uFEFF${COLUMNS.map((column) => column.header).join(",")}\r\n`))) return;
+
+  for await (const establishment of establishments) {
+    const line = COLUMNS.map((column) => csvCell(column.value(establishment))).join(",");
+    if (!(await write(res, `${line}\r\n`))) return;
+  }
+  res.end();
+}
+
+async function writeJson(res: Response, establishments: AsyncIterable<EstablishmentListItem>) {
+  let separator = "[\n";
+
+  for await (const establishment of establishments) {
+    const record = Object.fromEntries(COLUMNS.map((column) => [column.header, column.value(establishment)]));
+    if (!(await write(res, `${separator}${JSON.stringify(record)}`))) return;
+    separator = ",\n";
+  }
+  res.end(separator === "[\n" ? "[]\n" : "\n]\n");
+}
+
+async function writeXlsx(res: Response, establishments: AsyncIterable<EstablishmentListItem>) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet("Establishments");
+  worksheet.columns = COLUMNS.map((column) => ({ header: column.header, key: column.header }));
+
+  for await (const establishment of establishments) {
+    if (res.destroyed) return;
+    worksheet.addRow(COLUMNS.map((column) => {
+      const value = column.value(establishment);
+      return Array.isArray(value) ? value.join(", ") : value;
+    })).commit();
+  }
+  worksheet.commit();
+  await workbook.commit();
+}
+
+/**
+ * Stream the establishments matching the list's filters, in its order, as a file download.
+ * Rows are written as they are read; an error part way through cuts the download short.
+ */
+export async function sendExport(res: Response, format: ExportFormat, filters: EstablishmentFilters, sortBy?: string) {
+  const fileName = `establishments-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+  const establishments = matchingEstablishments(filters, sortBy);
+
+  switch (format) {
+    case "csv":
+      return writeCsv(res, establishments);
+    case "json":
+      return writeJson(res, establishments);
+    case "xlsx":
+      return writeXlsx(res, establishments);
+  }
+}
@@ -0,0 +1,87 @@
+import { createRemoteJWKSet, decodeJwt, jwtVerify, type JWTPayload } from "jose";
+
+// Google's public keys for Firebase ID tokens; override to point at a local JWKS stand-in
+const DEFAULT_JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+export type FirebaseTokenClaims = {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+  displayName: string | null;
+  photoURL: string | null;
+};
+
+export class FirebaseTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FirebaseTokenError";
+  }
+}
+
+let jwks: ReturnType<typeof createRemoteJWKSet> | undefined;
+
+// The project ID tokens must be issued for; undefined when Firebase sign-in is not configured
+export function getFirebaseProjectId(): string | undefined {
+  return process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || undefined;
+}
+
+function getJwks() {
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(process.env.FIREBASE_JWKS_URL || DEFAULT_JWKS_URL));
+  }
+  return jwks;
+}
+
+// The Auth emulator issues unsigned tokens, so only the claims can be checked
+function verifyEmulatorToken(token: string, projectId: string): JWTPayload {
+  const payload = decodeJwt(token);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (payload.aud !== projectId) {
+    throw new FirebaseTokenError("Token audience does not match the Firebase project");
+  }
+  if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new FirebaseTokenError("Token issuer does not match the Firebase project");
+  }
+  if (typeof payload.exp !== "number" || payload.exp < now) {
+    throw new FirebaseTokenError("Token has expired");
+  }
+  return payload;
+}
+
+// Verify a Firebase ID token and return the claims we care about
+export async function verifyFirebaseToken(token: string): Promise<FirebaseTokenClaims> {
+  const projectId = getFirebaseProjectId();
+  if (!projectId) {
+    throw new Error("FIREBASE_PROJECT_ID must be set to verify Firebase ID tokens");
+  }
+  let payload: JWTPayload;
+
+  try {
+    if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+      payload = verifyEmulatorToken(token, projectId);
+    } else {
+      ({ payload } = await jwtVerify(token, getJwks(), {
+        algorithms: ["RS256"],
+        audience: projectId,
+        issuer: `https://securetoken.google.com/${projectId}`,
+      }));
+    }
+  } catch (error: any) {
+    if (error instanceof FirebaseTokenError) throw error;
+    throw new FirebaseTokenError(error.message || "Invalid Firebase ID token");
+  }
+
+  if (!payload.sub) {
+    throw new FirebaseTokenError("Token has no subject");
+  }
+
+  return {
+    uid: payload.sub,
+    email: typeof payload.email === "string" ? payload.email : null,
+    emailVerified: payload.email_verified === true,
+    displayName: typeof payload.name === "string" ? payload.name : null,
+    photoURL: typeof payload.picture === "string" ? payload.picture : null,
+  };
+}
@@ -0,0 +1,30 @@
+import path from "path";
+import { OfflineGeocoder, loadPlaceTable } from "./offline";
+import { DEFAULT_PLACES } from "./places";
+import { tidyAddress, type Geocoder } from "./types";
+
+export * from "./types";
+export { OfflineGeocoder, loadPlaceTable, type PlaceTable } from "./offline";
+
+// Only tidies the address; for deployments that enter coordinates by hand
+const noopGeocoder: Geocoder = {
+  async geocode(address) {
+    return { address: tidyAddress(address), coordinates: null };
+  },
+};
+
+// Build the geocoder selected by GEOCODER (offline or none)
+export function createGeocoder(driver = process.env.GEOCODER || "offline"): Geocoder {
+  switch (driver) {
+    case "offline": {
+      const placesFile = process.env.GEOCODER_PLACES_FILE;
+      return new OfflineGeocoder(placesFile ? loadPlaceTable(path.resolve(placesFile)) : DEFAULT_PLACES);
+    }
+    case "none":
+      return noopGeocoder;
+    default:
+      throw new Error(`Unknown GEOCODER "${driver}", expected offline or none`);
+  }
+}
+
+export const geocoder = createGeocoder();
@@ -0,0 +1,154 @@
+import fs from "fs";
+import { z } from "zod";
+import type { Address } from "@shared/schema";
+import { GeocoderError, tidyAddress, type Coordinates, type GeocodeResult, type Geocoder } from "./types";
+
+const countrySchema = z.object({
+  code: z.string().length(2),
+  name: z.string().min(1),
+  aliases: z.array(z.string()).optional(),
+});
+
+const placeSchema = z.object({
+  country: z.string().length(2),
+  city: z.string().min(1),
+  // Set for places inside a city; the entry then describes the district, not the whole city
+  district: z.string().min(1).optional(),
+  // Other spellings of the place's own name (the district if set, otherwise the city)
+  aliases: z.array(z.string()).optional(),
+  // Postal codes or code prefixes ("SW1A", "100") that fall inside the place
+  postalCodes: z.array(z.string()).optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const placeTableSchema = z.object({
+  countries: z.array(countrySchema),
+  places: z.array(placeSchema),
+});
+
+export type PlaceTable = z.infer<typeof placeTableSchema>;
+type Place = z.infer<typeof placeSchema>;
+
+// Compare names ignoring case, accents, dots and extra spaces: "St. Étienne" matches "st etienne"
+function nameKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function postalKey(postalCode: string): string {
+  return postalCode.replace(/\s+/g, "").toUpperCase();
+}
+
+function coordinatesOf(place: Place): Coordinates {
+  return { latitude: place.latitude, longitude: place.longitude };
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Looks addresses up in a table of known countries, cities, districts and
+ * postal codes, so it needs no network access. When a name matches places in
+ * several countries and the address has no country, the first listed wins.
+ */
+export class OfflineGeocoder implements Geocoder {
+  private readonly countries = new Map<string, string>();
+  private readonly cities = new Map<string, Place[]>();
+  private readonly districts = new Map<string, Place>();
+  private readonly postalCodes = new Map<string, Place[]>();
+
+  constructor(table: PlaceTable) {
+    for (const country of table.countries) {
+      for (const name of [country.code, country.name, ...(country.aliases ?? [])]) {
+        this.countries.set(nameKey(name), country.code.toUpperCase());
+      }
+    }
+
+    for (const place of table.places) {
+      const names = [place.district ?? place.city, ...(place.aliases ?? [])];
+      for (const name of names) {
+        if (place.district) {
+          this.districts.set(this.districtKey(place.country, place.city, name), place);
+        } else {
+          addTo(this.cities, nameKey(name), place);
+        }
+      }
+      for (const code of place.postalCodes ?? []) {
+        addTo(this.postalCodes, postalKey(code), place);
+      }
+    }
+  }
+
+  async geocode(input: Address): Promise<GeocodeResult> {
+    const address = tidyAddress(input);
+    const countryCode = address.country ? this.countries.get(nameKey(address.country)) : undefined;
+    if (countryCode) {
+      address.country = countryCode;
+    }
+
+    const inCountry = (place: Place) => !address.country || place.country === address.country;
+    const city = address.city
+      ? this.cities.get(nameKey(address.city))?.find(inCountry)
+      : undefined;
+    // Postal codes only count inside the matched city, or anywhere in the country when no city was given
+    const postal = address.postalCode
+      ? this.findPostalCode(address.postalCode, (place) =>
+          city ? place.country === city.country && place.city === city.city : !address.city && inCountry(place)
+        )
+      : undefined;
+
+    // A known postal code can fill in the city and country when they were left out
+    const known = city ?? postal;
+    if (known) {
+      address.city = known.city;
+      address.country = known.country;
+    }
+    if (!address.district && postal?.district) {
+      address.district = postal.district;
+    }
+
+    const district = address.district && address.city && address.country
+      ? this.districts.get(this.districtKey(address.country, address.city, address.district))
+      : undefined;
+    if (district?.district) address.district = district.district;
+
+    // Prefer the most precise match
+    const match = district ?? postal ?? city;
+    return { address, coordinates: match ? coordinatesOf(match) : null };
+  }
+
+  private districtKey(country: string, city: string, district: string): string {
+    return `${country.toUpperCase()}|${nameKey(city)}|${nameKey(district)}`;
+  }
+
+  // The place listing the longest prefix of the postal code
+  private findPostalCode(postalCode: string, accept: (place: Place) => boolean): Place | undefined {
+    const code = postalKey(postalCode);
+    for (let length = code.length; length >= 2; length--) {
+      const place = this.postalCodes.get(code.slice(0, length))?.find(accept);
+      if (place) return place;
+    }
+    return undefined;
+  }
+}
+
+// Read a place table from a JSON file shaped like PlaceTable
+export function loadPlaceTable(filePath: string): PlaceTable {
+  try {
+    return placeTableSchema.parse(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  } catch (error) {
+    throw new GeocoderError(`Failed to load geocoder places from ${filePath}`, { cause: error });
+  }
+}
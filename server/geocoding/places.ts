@@ -0,0 +1,64 @@
+import type { PlaceTable } from "./offline";
+
+// Built-in lookup table: a starter set of countries and major cities. Point
+// GEOCODER_PLACES_FILE at a JSON file of the same shape to use a fuller one.
+export const DEFAULT_PLACES: PlaceTable = {
+  countries: [
+    { code: "US", name: "United States", aliases: ["USA", "United States of America", "America"] },
+    { code: "GB", name: "United Kingdom", aliases: ["UK", "Great Britain", "England", "Scotland", "Wales"] },
+    { code: "CA", name: "Canada" },
+    { code: "AU", name: "Australia" },
+    { code: "IN", name: "India", aliases: ["Bharat"] },
+    { code: "DE", name: "Germany", aliases: ["Deutschland"] },
+    { code: "FR", name: "France" },
+    { code: "ES", name: "Spain", aliases: ["España"] },
+    { code: "IT", name: "Italy", aliases: ["Italia"] },
+    { code: "NL", name: "Netherlands", aliases: ["Holland", "Nederland", "The Netherlands"] },
+    { code: "IE", name: "Ireland" },
+    { code: "JP", name: "Japan" },
+    { code: "SG", name: "Singapore" },
+    { code: "AE", name: "United Arab Emirates", aliases: ["UAE"] },
+  ],
+  places: [
+    { country: "US", city: "New York", aliases: ["NYC", "New York City"], latitude: 40.7128, longitude: -74.006 },
+    { country: "US", city: "New York", district: "Manhattan", postalCodes: ["100", "101", "102"], latitude: 40.7831, longitude: -73.9712 },
+    { country: "US", city: "New York", district: "Brooklyn", postalCodes: ["112"], latitude: 40.6782, longitude: -73.9442 },
+    { country: "US", city: "Los Angeles", aliases: ["LA"], latitude: 34.0522, longitude: -118.2437 },
+    { country: "US", city: "Los Angeles", district: "Downtown", aliases: ["DTLA"], postalCodes: ["90012", "90013", "90014", "90015", "90017", "90071"], latitude: 34.0407, longitude: -118.2468 },
+    { country: "US", city: "Chicago", latitude: 41.8781, longitude: -87.6298 },
+    { country: "US", city: "Chicago", district: "The Loop", aliases: ["Loop", "Downtown"], postalCodes: ["60601", "60602", "60603", "60604"], latitude: 41.8837, longitude: -87.6325 },
+    { country: "US", city: "San Francisco", aliases: ["SF"], latitude: 37.7749, longitude: -122.4194 },
+    { country: "US", city: "San Francisco", district: "Mission District", aliases: ["Mission", "The Mission"], postalCodes: ["94110"], latitude: 37.7599, longitude: -122.4148 },
+    { country: "US", city: "Seattle", postalCodes: ["981"], latitude: 47.6062, longitude: -122.3321 },
+    { country: "GB", city: "London", latitude: 51.5074, longitude: -0.1278 },
+    { country: "GB", city: "London", district: "Westminster", postalCodes: ["SW1"], latitude: 51.4975, longitude: -0.1357 },
+    { country: "GB", city: "London", district: "Camden", postalCodes: ["NW1"], latitude: 51.529, longitude: -0.1255 },
+    { country: "GB", city: "Manchester", postalCodes: ["M1", "M2", "M3", "M4"], latitude: 53.4808, longitude: -2.2426 },
+    { country: "GB", city: "Edinburgh", postalCodes: ["EH"], latitude: 55.9533, longitude: -3.1883 },
+    { country: "CA", city: "Toronto", latitude: 43.6532, longitude: -79.3832 },
+    { country: "CA", city: "Vancouver", latitude: 49.2827, longitude: -123.1207 },
+    { country: "CA", city: "Montréal", aliases: ["Montreal"], latitude: 45.5017, longitude: -73.5673 },
+    { country: "AU", city: "Sydney", latitude: -33.8688, longitude: 151.2093 },
+    { country: "AU", city: "Melbourne", latitude: -37.8136, longitude: 144.9631 },
+    { country: "IN", city: "Mumbai", aliases: ["Bombay"], postalCodes: ["4000"], latitude: 19.076, longitude: 72.8777 },
+    { country: "IN", city: "New Delhi", aliases: ["Delhi"], postalCodes: ["110"], latitude: 28.6139, longitude: 77.209 },
+    { country: "IN", city: "Bengaluru", aliases: ["Bangalore"], latitude: 12.9716, longitude: 77.5946 },
+    { country: "IN", city: "Bengaluru", district: "Koramangala", postalCodes: ["560034", "560095"], latitude: 12.9352, longitude: 77.6245 },
+    { country: "IN", city: "Hyderabad", latitude: 17.385, longitude: 78.4867 },
+    { country: "IN", city: "Chennai", aliases: ["Madras"], latitude: 13.0827, longitude: 80.2707 },
+    { country: "DE", city: "Berlin", latitude: 52.52, longitude: 13.405 },
+    { country: "DE", city: "Berlin", district: "Mitte", postalCodes: ["10115", "10117", "10119", "10178", "10179"], latitude: 52.531, longitude: 13.3847 },
+    { country: "DE", city: "München", aliases: ["Munich", "Muenchen"], latitude: 48.1351, longitude: 11.582 },
+    { country: "FR", city: "Paris", latitude: 48.8566, longitude: 2.3522 },
+    { country: "FR", city: "Paris", district: "Le Marais", aliases: ["Marais"], postalCodes: ["75003", "75004"], latitude: 48.859, longitude: 2.362 },
+    { country: "ES", city: "Madrid", latitude: 40.4168, longitude: -3.7038 },
+    { country: "ES", city: "Barcelona", latitude: 41.3851, longitude: 2.1734 },
+    { country: "IT", city: "Roma", aliases: ["Rome"], latitude: 41.9028, longitude: 12.4964 },
+    { country: "IT", city: "Milano", aliases: ["Milan"], latitude: 45.4642, longitude: 9.19 },
+    { country: "NL", city: "Amsterdam", latitude: 52.3676, longitude: 4.9041 },
+    { country: "IE", city: "Dublin", latitude: 53.3498, longitude: -6.2603 },
+    { country: "JP", city: "Tokyo", latitude: 35.6762, longitude: 139.6503 },
+    { country: "SG", city: "Singapore", latitude: 1.3521, longitude: 103.8198 },
+    { country: "AE", city: "Dubai", latitude: 25.2048, longitude: 55.2708 },
+  ],
+};
@@ -0,0 +1,41 @@
+import type { Address } from "@shared/schema";
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+export type GeocodeResult = {
+  // The address in its canonical spelling, e.g. "usa" becomes "US"
+  address: Address;
+  // Null when the geocoder does not know where the address is
+  coordinates: Coordinates | null;
+};
+
+/**
+ * Turns a postal address into its canonical form and, where known, a point
+ * on the map. Implementations may be offline tables or remote services.
+ */
+export interface Geocoder {
+  geocode(address: Address): Promise<GeocodeResult>;
+}
+
+export class GeocoderError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "GeocoderError";
+  }
+}
+
+// Trim every part, collapse inner whitespace and turn empty parts into null
+export function tidyAddress(address: Address): Address {
+  const tidy = (value: string | null) => value?.trim().replace(/\s+/g, " ") || null;
+
+  return {
+    street: tidy(address.street),
+    district: tidy(address.district),
+    city: tidy(address.city),
+    postalCode: tidy(address.postalCode)?.toUpperCase() ?? null,
+    country: tidy(address.country),
+  };
+}
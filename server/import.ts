@@ -0,0 +1,313 @@
+import path from "path";
+import ExcelJS from "exceljs";
+import { parse as parseCsv } from "csv-parse/sync";
+import { storage } from "./storage";
+import { geocoder } from "./geocoding";
+import {
+  insertEstablishmentSchema,
+  pickAddress,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  type ImportField,
+  type ImportMapping,
+  type ImportRow,
+  type InsertEstablishment,
+  type Location,
+  type TaxonomyTerm
+} from "@shared/schema";
+
+// Headers people use for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "title", "establishment", "business"],
+  category: ["category", "type"],
+  tags: ["tags", "tag", "labels"],
+  description: ["description", "about", "details"],
+  street: ["street", "address", "streetaddress", "address1"],
+  district: ["district", "neighbourhood", "neighborhood", "area"],
+  city: ["city", "town"],
+  postalCode: ["postalcode", "postcode", "zip", "zipcode"],
+  country: ["country"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lng", "lon", "long"],
+  timezone: ["timezone", "tz"],
+};
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+  }
+}
+
+// A sheet's header row and the cells below it, all as text
+export type Sheet = {
+  columns: string[];
+  rows: string[][];
+};
+
+// A row that passed every check, ready to be created
+export type ImportCandidate = {
+  row: number;
+  establishment: InsertEstablishment;
+  tags: string[];
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Names compare without case or repeated spaces
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Semicolons are the usual separator in spreadsheets saved with a European locale
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [",", ";", "\t"].map((delimiter) => ({ delimiter, count: header.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const worksheet = workbook.worksheets[0];
+
+  if (!worksheet) {
+    throw new ImportFileError("The workbook has no sheets");
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text.trim());
+    }
+    rows[rowNumber - 1] = cells;
+  });
+  // eachRow skips rows past the last one with values, but not gaps before it
+  return Array.from(rows, (cells) => cells ?? []);
+}
+
+// Read the first sheet of a CSV or XLSX file; the first row holds the column headers
+export async function readSheet(buffer: Buffer, fileName: string): Promise<Sheet> {
+  const ext = path.extname(fileName).toLowerCase();
+  let cells: string[][];
+
+  try {
+    if (ext === ".csv") {
+      const text = buffer.toString("utf8");
+      cells = parseCsv(text, {
+        bom: true,
+        delimiter: detectDelimiter(text),
+        relax_column_count: true,
+        trim: true,
+      });
+    } else if (ext === ".xlsx") {
+      cells = await readXlsx(buffer);
+    } else {
+      throw new ImportFileError(`Import a .csv or .xlsx file, not ${ext || "a file without an extension"}`);
+    }
+  } catch (error) {
+    if (error instanceof ImportFileError) throw error;
+    throw new ImportFileError(`The file could not be read: ${(error as Error).message}`);
+  }
+
+  const [columns, ...rows] = cells;
+
+  if (!columns || columns.every((column) => column === "")) {
+    throw new ImportFileError("The first row must name the columns");
+  }
+
+  // Rows are numbered as in the sheet, so blank ones are kept until validation skips them
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+
+  return { columns, rows };
+}
+
+// Map each column whose header looks like a field name to that field, each field at most once
+export function guessMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<ImportField>();
+
+  for (const column of columns) {
+    const header = normalizeHeader(column);
+    const field = IMPORT_FIELDS.find((candidate) => !used.has(candidate) && FIELD_ALIASES[candidate].includes(header));
+    mapping[column] = field ?? null;
+    if (field) used.add(field);
+  }
+  return mapping;
+}
+
+// Find a term by its slug or, as people write them in spreadsheets, its name
+function termLookup(terms: TaxonomyTerm[]) {
+  const byKey = new Map<string, string>();
+  for (const term of terms) {
+    byKey.set(normalizeText(term.name), term.slug);
+    byKey.set(term.slug, term.slug);
+  }
+  return (value: string) => byKey.get(normalizeText(value));
+}
+
+// Find the location node of a city, or of a district in it, as createEstablishments matches them;
+// otherwise name the nodes it would add, city first
+function placeLookup(locations: Location[]) {
+  const find = (name: string, kind: Location["kind"], parentId: number | null) => locations.find((location) =>
+    location.kind === kind && location.parentId === parentId && normalizeText(location.name) === normalizeText(name)
+  );
+
+  return (city: string, district: string | null): { locationId?: number; missing: string[] } => {
+    const cityNode = find(city, "city", null);
+    if (!cityNode) {
+      return { missing: district ? [city, district] : [city] };
+    }
+    if (!district) {
+      return { locationId: cityNode.id, missing: [] };
+    }
+    const districtNode = find(district, "district", cityNode.id);
+    return districtNode ? { locationId: districtNode.id, missing: [] } : { missing: [district] };
+  };
+}
+
+// Establishments that match on name, city and street are taken to be the same place
+function duplicateKey(establishment: { name: string; city: string | null; street?: string | null }): string {
+  return [establishment.name, establishment.city, establishment.street].map(normalizeText).join("\u0000");
+}
+
+/**
+ * Check every row of a sheet against the establishment schema, the taxonomy and the
+ * establishments already listed. Rows that pass come back as candidates in the owner's name,
+ * with their address in canonical form; the report covers every non-blank row.
+ */
+export async function validateSheet(
+  sheet: Sheet,
+  mapping: ImportMapping,
+  ownerId: number,
+  defaultTimezone?: string
+): Promise<{ rows: ImportRow[]; candidates: ImportCandidate[] }> {
+  const findCategory = termLookup(await storage.getTerms("categories"));
+  const findPlace = placeLookup(await storage.getLocations());
+  const findTag = termLookup(await storage.getTerms("tags"));
+  const columnOf = new Map<ImportField, number>();
+  sheet.columns.forEach((column, index) => {
+    const field = mapping[column];
+    if (field && !columnOf.has(field)) columnOf.set(field, index);
+  });
+
+  const cell = (cells: string[], field: ImportField) => {
+    const index = columnOf.get(field);
+    return index === undefined ? "" : (cells[index] ?? "").trim();
+  };
+  const coordinate = (value: string) => {
+    if (value === "") return null;
+    const number = Number(value);
+    // Left as text so the schema reports it
+    return Number.isFinite(number) ? number : value;
+  };
+
+  const rows: ImportRow[] = [];
+  const candidates: (ImportCandidate & { report: ImportRow })[] = [];
+
+  for (let index = 0; index < sheet.rows.length; index++) {
+    const cells = sheet.rows[index];
+    if (cells.every((value) => value.trim() === "")) continue;
+
+    const row = index + 2;
+    const errors: ImportRow["errors"] = [];
+    const name = cell(cells, "name");
+    const categoryValue = cell(cells, "category");
+    const category = findCategory(categoryValue);
+    const tags: string[] = [];
+
+    if (!category) {
+      errors.push({ path: ["category"], message: categoryValue === "" ? "Category is required" : `Unknown category "${categoryValue}"` });
+    }
+
+    for (const tagValue of cell(cells, "tags").split(/[,;]/).map((value) => value.trim()).filter(Boolean)) {
+      const tag = findTag(tagValue);
+      if (!tag) {
+        errors.push({ path: ["tags"], message: `Unknown tag "${tagValue}"` });
+      } else if (!tags.includes(tag)) {
+        tags.push(tag);
+      }
+    }
+
+    const parsed = insertEstablishmentSchema.safeParse({
+      name,
+      category,
+      description: cell(cells, "description") || null,
+      street: cell(cells, "street") || null,
+      district: cell(cells, "district") || null,
+      city: cell(cells, "city"),
+      postalCode: cell(cells, "postalCode") || null,
+      country: cell(cells, "country") || null,
+      latitude: coordinate(cell(cells, "latitude")),
+      longitude: coordinate(cell(cells, "longitude")),
+      timezone: cell(cells, "timezone") || defaultTimezone,
+      userId: ownerId,
+    });
+
+    if (!parsed.success) {
+      // A missing or unknown category was reported already
+      errors.push(...parsed.error.errors
+        .filter((issue) => issue.path[0] !== "category")
+        .map((issue) => ({ path: issue.path, message: issue.message })));
+    } else if ((parsed.data.latitude == null) !== (parsed.data.longitude == null)) {
+      errors.push({ path: ["latitude"], message: "latitude and longitude must be set together" });
+    }
+
+    if (!parsed.success || errors.length > 0) {
+      rows.push({ row, name, status: "invalid", errors });
+      continue;
+    }
+
+    // Store the address in its canonical form, and place it on the map unless the row already did
+    const { address, coordinates } = await geocoder.geocode(pickAddress(parsed.data));
+    const establishment = {
+      ...parsed.data,
+      ...address,
+      city: address.city ?? parsed.data.city,
+      ...(coordinates && parsed.data.latitude == null ? coordinates : {}),
+    };
+
+    // File it under its city and district; those the tree lacks are added when it is created
+    const place = findPlace(establishment.city, establishment.district ?? null);
+    const report: ImportRow = { row, name, status: "valid", errors: [] };
+    if (place.locationId !== undefined) {
+      establishment.locationId = place.locationId;
+    } else {
+      report.newLocations = place.missing;
+    }
+    rows.push(report);
+    candidates.push({ report, row, establishment, tags });
+  }
+
+  // Repeats of a listed establishment, or of an earlier row, are reported instead of created
+  const listed = new Map<string, number>();
+  for (const establishment of await storage.getEstablishmentsByName(candidates.map((candidate) => candidate.establishment.name))) {
+    listed.set(duplicateKey(establishment), establishment.id);
+  }
+
+  const seen = new Map<string, number>();
+  const unique: ImportCandidate[] = [];
+  for (const { report, ...candidate } of candidates) {
+    const key = duplicateKey(candidate.establishment);
+    const establishmentId = listed.get(key);
+    const earlierRow = seen.get(key);
+
+    if (establishmentId !== undefined) {
+      report.duplicateOf = { establishmentId };
+    } else if (earlierRow !== undefined) {
+      report.duplicateOf = { row: earlierRow };
+    } else {
+      seen.set(key, candidate.row);
+      unique.push(candidate);
+      continue;
+    }
+    report.status = "duplicate";
+  }
+
+  return { rows, candidates: unique };
+}
@@ -0,0 +1,45 @@
+/**
+ * Apply pending data migrations, then push the schema:
+ *
+ *   npm run db:migrate && npm run db:push
+ *
+ * Migrations that have already run are recorded in the data_migrations
+ * table (left alone by drizzle-kit, see drizzle.config.ts) and skipped.
+ */
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { dataMigrations } from "./data-migrations";
+
+async function main() {
+  await db.execute(sql`
+    create table if not exists data_migrations (
+      id text primary key,
+      applied_at timestamp default now()
+    )
+  `);
+
+  const applied = await db.execute<{ id: string }>(sql`select id from data_migrations`);
+  const appliedIds = new Set(applied.rows.map((row) => row.id));
+
+  const pending = dataMigrations.filter((migration) => !appliedIds.has(migration.id));
+  if (pending.length === 0) {
+    console.log("No pending data migrations");
+    return;
+  }
+
+  for (const migration of pending) {
+    console.log(`Applying ${migration.id}...`);
+    await db.transaction(async (tx) => {
+      await migration.up(tx);
+      await tx.execute(sql`insert into data_migrations (id) values (${migration.id})`);
+    });
+  }
+  console.log(`Applied ${pending.length} data migration(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Data migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,162 @@
+/**
+ * Check that the OpenAPI document describes the API contract in shared/api.ts route by route:
+ * the same methods and paths, and for each the parameters, request body and successful response
+ * the contract's schemas give.
+ *
+ *   npm run openapi:check    (npm run check runs it too)
+ *
+ * Needs no database or environment. The server serves exactly the contract's routes, as
+ * registerRoutes refuses to start otherwise, so matching the contract means matching the server.
+ * Exits with status 1 when anything differs.
+ */
+import { isDeepStrictEqual } from "util";
+import { OpenAPIRegistry, OpenApiGeneratorV31 } from "@asteasolutions/zod-to-openapi";
+import { apiRoutes } from "@shared/api";
+import { generateOpenApiDocument, openApiPath } from "./openapi";
+
+type OpenApiDocument = ReturnType<typeof generateOpenApiDocument>;
+
+type Operation = {
+  parameters?: { in: string; name: string }[];
+  requestBody?: unknown;
+  responses?: Record<string, { content?: Record<string, { schema?: unknown }> }>;
+};
+
+const METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+// What the contract alone says about each route, without the descriptions the docs add
+function contractDocument(): OpenApiDocument {
+  const registry = new OpenAPIRegistry();
+
+  for (const route of apiRoutes) {
+    registry.registerPath({
+      method: route.method,
+      path: openApiPath(route.path),
+      request: {
+        params: route.params,
+        query: route.query,
+        headers: route.headers,
+        body: route.body && {
+          content: { [route.contentType ?? "application/json"]: { schema: route.body } },
+        },
+      },
+      responses: {
+        [route.status ?? 200]: { description: "", content: { "application/json": { schema: route.response } } },
+      },
+    });
+  }
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: "3.1.0",
+    info: { title: "API contract", version: "1.0.0" },
+  });
+}
+
+function operations(document: OpenApiDocument): Map<string, Operation> {
+  const found = new Map<string, Operation>();
+
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    for (const method of METHODS) {
+      if (item[method]) {
+        found.set(`${method.toUpperCase()} ${path}`, item[method] as Operation);
+      }
+    }
+  }
+  return found;
+}
+
+// Replace references to components with the components themselves, and drop undefined values,
+// so the same schema compares equal whether or not it was registered under a name
+function inline(value: unknown, document: OpenApiDocument): unknown {
+  if (Array.isArray(value)) return value.map((item) => inline(item, document));
+  if (value === null || typeof value !== "object") return value;
+
+  const ref = (value as { $ref?: unknown }).$ref;
+  if (typeof ref === "string" && ref.startsWith("#/components/")) {
+    const [section, name] = ref.slice("#/components/".length).split("/");
+    const components = document.components as Record<string, Record<string, unknown> | undefined> | undefined;
+    return inline(components?.[section]?.[name], document);
+  }
+  return Object.fromEntries(Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .map(([key, item]) => [key, inline(item, document)]));
+}
+
+// How a documented route differs from the contract's
+function differences(
+  documented: Operation,
+  documentedIn: OpenApiDocument,
+  expected: Operation,
+  expectedIn: OpenApiDocument,
+  successStatus: number
+): string[] {
+  const found: string[] = [];
+
+  // Parameters are compared as a set, by where they go and their name
+  const byPlace = (operation: Operation, document: OpenApiDocument) => Object.fromEntries((operation.parameters ?? [])
+    .map((parameter) => [`${parameter.in} ${parameter.name}`, inline(parameter, document)]));
+  const documentedParameters = byPlace(documented, documentedIn);
+  const expectedParameters = byPlace(expected, expectedIn);
+  for (const key of Array.from(new Set([...Object.keys(documentedParameters), ...Object.keys(expectedParameters)]))) {
+    if (!(key in expectedParameters)) {
+      found.push(`documents ${key}, which the contract does not have`);
+    } else if (!(key in documentedParameters)) {
+      found.push(`leaves out ${key}`);
+    } else if (!isDeepStrictEqual(documentedParameters[key], expectedParameters[key])) {
+      found.push(`describes ${key} differently`);
+    }
+  }
+
+  if (!isDeepStrictEqual(inline(documented.requestBody, documentedIn), inline(expected.requestBody, expectedIn))) {
+    found.push("describes the request body differently");
+  }
+
+  // A successful response may come as a file rather than JSON, but always with the contract's schema
+  const success = documented.responses?.[successStatus];
+  const expectedSchema = inline(expected.responses?.[successStatus]?.content?.["application/json"]?.schema, expectedIn);
+  const contents = Object.entries(success?.content ?? {});
+  if (contents.length === 0) {
+    found.push(`has no ${successStatus} response body`);
+  }
+  for (const [contentType, content] of contents) {
+    if (!isDeepStrictEqual(inline(content.schema, documentedIn), expectedSchema)) {
+      found.push(`describes the ${successStatus} ${contentType} response differently`);
+    }
+  }
+  return found;
+}
+
+function main() {
+  const document = generateOpenApiDocument();
+  const contract = contractDocument();
+  const documented = operations(document);
+  const expected = operations(contract);
+  const problems: string[] = [];
+
+  for (const route of apiRoutes) {
+    const key = `${route.method.toUpperCase()} ${openApiPath(route.path)}`;
+    const operation = documented.get(key);
+
+    if (!operation) {
+      problems.push(`${key}: in the contract but not in the OpenAPI document`);
+      continue;
+    }
+    for (const difference of differences(operation, document, expected.get(key)!, contract, route.status ?? 200)) {
+      problems.push(`${key}: ${difference}`);
+    }
+  }
+  for (const key of Array.from(documented.keys())) {
+    if (!expected.has(key)) {
+      problems.push(`${key}: in the OpenAPI document but not in the contract`);
+    }
+  }
+
+  for (const problem of problems) {
+    console.error(problem);
+  }
+  console.log(problems.length === 0
+    ? `The OpenAPI document matches all ${apiRoutes.length} routes`
+    : `${problems.length} difference(s); update server/openapi.ts`);
+  process.exitCode = problems.length > 0 ? 1 : 0;
+}
+
+main();
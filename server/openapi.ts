@@ -0,0 +1,567 @@
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  type ResponseConfig
+} from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+import { contract, apiErrorSchema, type ApiRoute } from "@shared/api";
+import { IMPORT_FIELDS, MAX_IMPORT_ROWS, TAXONOMY_KINDS } from "@shared/schema";
+
+const registry = new OpenAPIRegistry();
+
+// Signed-in users send the session cookie; Firebase users may send their ID token instead
+const sessionAuth = registry.registerComponent("securitySchemes", "session", {
+  type: "apiKey",
+  in: "cookie",
+  name: "connect.sid",
+});
+const firebaseAuth = registry.registerComponent("securitySchemes", "firebase", {
+  type: "http",
+  scheme: "bearer",
+  description: "A Firebase ID token",
+});
+
+const json = (schema: z.ZodTypeAny, description: string): ResponseConfig => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const file = (contentTypes: string[], description: string): ResponseConfig => ({
+  description,
+  content: Object.fromEntries(contentTypes.map((type) => [type, { schema: z.string().openapi({ format: "binary" }) }])),
+});
+
+const versionConflict = json(
+  apiErrorSchema.extend({ current: contract.establishments.get.response }),
+  "Someone else changed it first; it is returned as it is now"
+);
+
+// Express's :id, or :key(*) for the rest of the path, as OpenAPI's {id}
+export function openApiPath(path: string): string {
+  return path.replace(/:(\w+)(\([^)]*\))?/g, "{$1}");
+}
+
+type RouteDocs = {
+  tags: string[];
+  summary: string;
+  description?: string;
+  // Whether the route needs a signed-in user
+  signedIn?: boolean;
+  // What a successful response holds, or the whole response when it is not the route's JSON
+  success: string | ResponseConfig;
+  // Other responses, mostly errors, described by their message
+  responses?: Record<number, string | ResponseConfig>;
+};
+
+// Describe a route of the API contract; its parameters and bodies come from the contract
+function document(route: ApiRoute, docs: RouteDocs) {
+  const responses: Record<number, ResponseConfig> = {
+    [route.status ?? 200]: typeof docs.success === "string" ? json(route.response, docs.success) : docs.success,
+  };
+  for (const [status, response] of Object.entries(docs.responses ?? {})) {
+    responses[Number(status)] = typeof response === "string" ? json(apiErrorSchema, response) : response;
+  }
+  // Every route answers 500 with an error message when something unexpected fails
+  responses[500] = json(apiErrorSchema, "Unexpected server error");
+
+  registry.registerPath({
+    method: route.method,
+    path: openApiPath(route.path),
+    tags: docs.tags,
+    summary: docs.summary,
+    description: docs.description,
+    security: docs.signedIn ? [{ [sessionAuth.name]: [] }, { [firebaseAuth.name]: [] }] : undefined,
+    request: {
+      params: route.params,
+      query: route.query,
+      headers: route.headers,
+      body: route.body && {
+        content: { [route.contentType ?? "application/json"]: { schema: route.body } },
+      },
+    },
+    responses,
+  });
+}
+
+// -------------- Users --------------
+
+document(contract.users.register, {
+  tags: ["Users"],
+  summary: "Create an account and sign in",
+  success: "The new user",
+  responses: { 400: "Invalid details, or the username or email is taken" },
+});
+
+document(contract.users.login, {
+  tags: ["Users"],
+  summary: "Sign in with a username and password",
+  success: "The signed-in user",
+  responses: { 400: "Invalid request", 401: "Wrong username or password" },
+});
+
+document(contract.users.logout, {
+  tags: ["Users"],
+  summary: "Sign out and end the session",
+  success: "Signed out",
+});
+
+document(contract.users.me, {
+  tags: ["Users"],
+  summary: "Get the signed-in user",
+  signedIn: true,
+  success: "The signed-in user",
+  responses: { 401: "Not signed in" },
+});
+
+document(contract.users.list, {
+  tags: ["Users"],
+  summary: "List users",
+  signedIn: true,
+  success: "Every user",
+  responses: { 401: "Not signed in", 403: "Only admins can list users" },
+});
+
+document(contract.users.updateRole, {
+  tags: ["Users"],
+  summary: "Change a user's role",
+  signedIn: true,
+  success: "The updated user",
+  responses: {
+    400: "Invalid role, or the user is changing their own",
+    401: "Not signed in",
+    403: "Only admins can change roles",
+    404: "No such user",
+  },
+});
+
+document(contract.users.get, {
+  tags: ["Users"],
+  summary: "Get a user",
+  success: "The user",
+  responses: { 400: "Invalid user ID", 404: "No such user" },
+});
+
+// -------------- Establishments --------------
+
+document(contract.establishments.list, {
+  tags: ["Establishments"],
+  summary: "List establishments a page at a time",
+  success: "One page of establishments",
+  responses: { 400: "Invalid filter, limit or cursor" },
+});
+
+document(contract.establishments.export, {
+  tags: ["Establishments"],
+  summary: "Download every establishment the list would show",
+  success: file(
+    ["text/csv", "application/json", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    "The establishments as a file, with the columns the import reads"
+  ),
+  responses: { 400: "Invalid format or filter" },
+});
+
+document(contract.establishments.get, {
+  tags: ["Establishments"],
+  summary: "Get an establishment",
+  success: {
+    ...json(contract.establishments.get.response, "The establishment"),
+    headers: { ETag: { description: "Its version, for If-Match", schema: { type: "string" } } },
+  },
+  responses: { 400: "Invalid establishment ID", 404: "No such establishment" },
+});
+
+document(contract.establishments.create, {
+  tags: ["Establishments"],
+  summary: "Create an establishment owned by the signed-in user",
+  signedIn: true,
+  success: "The new establishment",
+  responses: {
+    400: "Invalid fields, or an unknown category, tag or location",
+    401: "Not signed in",
+    403: "The user's role cannot create establishments",
+  },
+});
+
+document(contract.establishments.import, {
+  tags: ["Establishments"],
+  summary: "Check, and optionally create, establishments from a CSV or XLSX sheet",
+  description: `The first row names the columns, which map to ${IMPORT_FIELDS.join(", ")}; at most ${MAX_IMPORT_ROWS} rows below it. ` +
+    "Valid rows are created together or not at all.",
+  signedIn: true,
+  success: "The report of a dry run",
+  responses: {
+    201: json(contract.establishments.import.response, "The report, with the establishments created"),
+    400: "The file or mapping cannot be read",
+    401: "Not signed in",
+    403: "The user's role cannot create establishments",
+    409: "A tag was removed while importing",
+    413: "The file is too large",
+  },
+});
+
+document(contract.establishments.update, {
+  tags: ["Establishments"],
+  summary: "Update an establishment",
+  signedIn: true,
+  success: {
+    ...json(contract.establishments.update.response, "Whether it was updated"),
+    headers: { ETag: { description: "Its new version", schema: { type: "string" } } },
+  },
+  responses: {
+    400: "Invalid or unknown fields",
+    401: "Not signed in",
+    403: "Only the owner or an admin can update it",
+    404: "No such establishment",
+    412: versionConflict,
+    428: "No If-Match header",
+  },
+});
+
+document(contract.establishments.delete, {
+  tags: ["Establishments"],
+  summary: "Move an establishment and its files to the trash",
+  signedIn: true,
+  success: "Whether it was deleted",
+  responses: {
+    400: "Invalid establishment ID",
+    401: "Not signed in",
+    403: "Only the owner or an admin can delete it",
+    404: "No such establishment",
+    412: versionConflict,
+    428: "No If-Match header",
+  },
+});
+
+document(contract.establishments.getHours, {
+  tags: ["Establishments"],
+  summary: "Get an establishment's opening hours",
+  success: "Its weekly hours and exception dates",
+  responses: { 400: "Invalid establishment ID", 404: "No such establishment" },
+});
+
+document(contract.establishments.setHours, {
+  tags: ["Establishments"],
+  summary: "Replace an establishment's opening hours",
+  description: "The time zone is a field of the establishment, so this needs its ETag like an update does.",
+  signedIn: true,
+  success: {
+    ...json(contract.establishments.setHours.response, "The new schedule"),
+    headers: { ETag: { description: "The establishment's new version", schema: { type: "string" } } },
+  },
+  responses: {
+    400: "Invalid schedule",
+    401: "Not signed in",
+    403: "Only the owner or an admin can update it",
+    404: "No such establishment",
+    412: versionConflict,
+    428: "No If-Match header",
+  },
+});
+
+document(contract.establishments.history, {
+  tags: ["Establishments"],
+  summary: "List changes to an establishment and its files, newest first",
+  signedIn: true,
+  description: "Only for those who may edit the establishment, or restore it once it is in the trash. Once purged, only admins see it.",
+  success: "Its history, kept after it is deleted",
+  responses: {
+    400: "Invalid establishment ID",
+    401: "Not signed in",
+    403: "Only the owner or an admin can see it",
+    404: "No such establishment, or one in the trash the user cannot restore",
+  },
+});
+
+document(contract.establishments.revert, {
+  tags: ["Establishments"],
+  summary: "Undo an update",
+  signedIn: true,
+  success: "Whether it was reverted",
+  responses: {
+    400: "Invalid ID, or the entry is not an update",
+    401: "Not signed in",
+    403: "Only the owner or an admin can update it",
+    404: "No such establishment or history entry",
+    409: "The fields have changed again since",
+  },
+});
+
+// -------------- Taxonomy --------------
+
+for (const kind of TAXONOMY_KINDS) {
+  const routes = contract[kind];
+  const label = kind === "categories" ? "category" : "tag";
+  const tags = [kind === "categories" ? "Categories" : "Tags"];
+
+  document(routes.list, {
+    tags,
+    summary: `List ${kind}`,
+    success: `Every ${label}`,
+  });
+
+  document(routes.create, {
+    tags,
+    summary: `Create a ${label}`,
+    signedIn: true,
+    success: `The new ${label}`,
+    responses: {
+      400: "Invalid fields or parent",
+      401: "Not signed in",
+      403: `Only admins can manage ${kind}`,
+      409: "The slug is taken",
+    },
+  });
+
+  document(routes.update, {
+    tags,
+    summary: `Update a ${label}`,
+    description: `A new slug changes the establishments using the ${label}: each gets a new version and a history entry.`,
+    signedIn: true,
+    success: `The updated ${label}`,
+    responses: {
+      400: "Invalid fields or parent",
+      401: "Not signed in",
+      403: `Only admins can manage ${kind}`,
+      404: `No such ${label}`,
+      409: "The slug is taken",
+    },
+  });
+
+  document(routes.delete, {
+    tags,
+    summary: `Delete a ${label}`,
+    description: kind === "tags" ? "Removes the tag from the establishments that have it, each getting a new version and a history entry." : undefined,
+    signedIn: true,
+    success: "Deleted",
+    responses: {
+      400: `Invalid ${label} ID`,
+      401: "Not signed in",
+      403: `Only admins can manage ${kind}`,
+      404: `No such ${label}`,
+      409: `The ${label} is in use`,
+    },
+  });
+}
+
+// -------------- Locations --------------
+
+document(contract.locations.list, {
+  tags: ["Locations"],
+  summary: "List the location tree",
+  success: "Every location; parentId links each to the one above it",
+});
+
+document(contract.locations.path, {
+  tags: ["Locations"],
+  summary: "Get a location and its ancestors, root first",
+  success: "The path to the location",
+  responses: { 400: "Invalid location ID", 404: "No such location" },
+});
+
+document(contract.locations.create, {
+  tags: ["Locations"],
+  summary: "Create a location",
+  signedIn: true,
+  success: "The new location",
+  responses: {
+    400: "Invalid fields or parent",
+    401: "Not signed in",
+    403: "Only admins can manage locations",
+  },
+});
+
+document(contract.locations.update, {
+  tags: ["Locations"],
+  summary: "Update a location",
+  description: "Establishments filed under it or below it, trashed ones included, take the city and district it now sits in.",
+  signedIn: true,
+  success: "The updated location",
+  responses: {
+    400: "Invalid fields or parent",
+    401: "Not signed in",
+    403: "Only admins can manage locations",
+    404: "No such location",
+    409: "Establishments are filed under it",
+  },
+});
+
+document(contract.locations.delete, {
+  tags: ["Locations"],
+  summary: "Delete a location",
+  signedIn: true,
+  success: "Deleted",
+  responses: {
+    400: "Invalid location ID",
+    401: "Not signed in",
+    403: "Only admins can manage locations",
+    404: "No such location",
+    409: "The location is in use",
+  },
+});
+
+document(contract.locations.districts, {
+  tags: ["Locations"],
+  summary: "List the districts establishments are in",
+  success: "Every district in use",
+});
+
+// -------------- Attachments --------------
+
+document(contract.attachments.list, {
+  tags: ["Attachments"],
+  summary: "List an establishment's files",
+  success: "Its files",
+  responses: { 400: "Invalid establishment ID", 404: "No such establishment" },
+});
+
+document(contract.attachments.upload, {
+  tags: ["Attachments"],
+  summary: "Upload a file to an establishment",
+  signedIn: true,
+  success: "The new attachment",
+  responses: {
+    400: "No file, or a file type that is not allowed",
+    401: "Not signed in",
+    403: "The user's role cannot upload files",
+    404: "No such establishment",
+    413: "The file is too large",
+  },
+});
+
+document(contract.attachments.download, {
+  tags: ["Attachments"],
+  summary: "Download an attachment's file",
+  success: file(["application/octet-stream"], "The file, with the type it was uploaded as"),
+  responses: { 404: "No such file" },
+});
+
+document(contract.attachments.delete, {
+  tags: ["Attachments"],
+  summary: "Move a file to the trash",
+  signedIn: true,
+  success: "Deleted",
+  responses: {
+    400: "Invalid attachment ID",
+    401: "Not signed in",
+    403: "Only the owner or an admin can delete it",
+    404: "No such attachment",
+  },
+});
+
+// -------------- Trash --------------
+
+document(contract.trash.list, {
+  tags: ["Trash"],
+  summary: "List deleted establishments and files",
+  description: "Admins see everyone's, others their own.",
+  signedIn: true,
+  success: "The trash",
+  responses: { 401: "Not signed in", 403: "The user's role cannot delete establishments" },
+});
+
+const trashKinds: [label: string, restore: ApiRoute, purge: ApiRoute, restoreConflicts: Record<number, string>][] = [
+  ["establishment", contract.trash.restoreEstablishment, contract.trash.purgeEstablishment, {}],
+  ["attachment", contract.trash.restoreAttachment, contract.trash.purgeAttachment, { 409: "Its establishment is still in the trash" }],
+];
+
+for (const [label, restore, purge, restoreConflicts] of trashKinds) {
+  document(restore, {
+    tags: ["Trash"],
+    summary: `Restore a deleted ${label}`,
+    signedIn: true,
+    success: "Whether it was restored",
+    responses: {
+      400: `Invalid ${label} ID`,
+      401: "Not signed in",
+      403: "Only the owner or an admin can restore it",
+      404: `No such ${label} in the trash`,
+      ...restoreConflicts,
+    },
+  });
+
+  document(purge, {
+    tags: ["Trash"],
+    summary: `Permanently delete a ${label} in the trash`,
+    signedIn: true,
+    success: "Whether it was purged",
+    responses: {
+      400: `Invalid ${label} ID`,
+      401: "Not signed in",
+      403: "Only the owner or an admin can purge it",
+      404: `No such ${label} in the trash`,
+    },
+  });
+}
+
+// -------------- Reviews --------------
+
+document(contract.reviews.list, {
+  tags: ["Reviews"],
+  summary: "List an establishment's reviews",
+  success: "Its reviews",
+  responses: { 400: "Invalid establishment ID" },
+});
+
+document(contract.reviews.create, {
+  tags: ["Reviews"],
+  summary: "Review an establishment",
+  signedIn: true,
+  success: "The new review",
+  responses: {
+    400: "Invalid review",
+    401: "Not signed in",
+    403: "The user's role cannot write reviews",
+    404: "No such establishment",
+    409: "The user has reviewed it already",
+  },
+});
+
+document(contract.reviews.update, {
+  tags: ["Reviews"],
+  summary: "Update a review",
+  signedIn: true,
+  success: "The updated review",
+  responses: {
+    400: "Invalid review",
+    401: "Not signed in",
+    403: "Only the author or an admin can update it",
+    404: "No such review",
+  },
+});
+
+document(contract.reviews.delete, {
+  tags: ["Reviews"],
+  summary: "Delete a review",
+  signedIn: true,
+  success: "Whether it was deleted",
+  responses: {
+    400: "Invalid review ID",
+    401: "Not signed in",
+    403: "Only the author or an admin can delete it",
+    404: "No such review",
+  },
+});
+
+// -------------- Docs --------------
+
+document(contract.docs.openapi, {
+  tags: ["Docs"],
+  summary: "Get this document",
+  success: "The OpenAPI document",
+});
+
+/**
+ * The OpenAPI 3.1 document for the API contract in shared/api.ts. A route added there must be
+ * described here too; npm run check fails until it is.
+ */
+export function generateOpenApiDocument() {
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: "3.1.0",
+    info: {
+      title: "EstablishmentDir API",
+      version: "1.0.0",
+      description: "Errors come back as { error } with a message, or with the fields that failed validation. " +
+        "A request with a Firebase ID token gets 503 when the server is not set up for Firebase sign-in.",
+    },
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Reconcile the blob store with the attachments table.
+ *
+ *   npm run blobs:reconcile                  report only
+ *   npm run blobs:reconcile -- --repair      adopt recoverable blobs and legacy rows
+ *   npm run blobs:reconcile -- --purge       delete orphaned blobs and dangling rows
+ *   npm run blobs:reconcile -- --min-age=30  ignore blobs younger than 30 minutes (default 60)
+ *
+ * Exits with status 1 when inconsistencies remain afterwards.
+ */
+import path from "path";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { blobStore, getBlobUrl, keyFromLegacyFilePath, type BlobInfo } from "./blobs";
+import { ALLOWED_UPLOAD_TYPES, formatFileSize } from "./uploads";
+import type { Attachment, Establishment } from "@shared/schema";
+
+const BLOB_PREFIX = "establishments/";
+
+type Options = {
+  repair: boolean;
+  purge: boolean;
+  minAgeMinutes: number;
+};
+
+type Report = {
+  // Blobs no attachments row points at
+  orphanedBlobs: BlobInfo[];
+  // Rows whose blob is missing from the store
+  danglingRows: Attachment[];
+  // Rows from client-side uploads whose key was never recorded
+  legacyRows: { attachment: Attachment; key: string }[];
+};
+
+function parseOptions(argv: string[]): Options {
+  const options: Options = { repair: false, purge: false, minAgeMinutes: 60 };
+
+  for (const arg of argv) {
+    if (arg === "--repair") {
+      options.repair = true;
+    } else if (arg === "--purge") {
+      options.purge = true;
+    } else if (arg.startsWith("--min-age=")) {
+      options.minAgeMinutes = Number(arg.slice("--min-age=".length));
+      if (!Number.isFinite(options.minAgeMinutes) || options.minAgeMinutes < 0) {
+        throw new Error(`Invalid --min-age value: ${arg}`);
+      }
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+// Blob keys look like "establishments/<id>/<file>"
+function establishmentIdFromKey(key: string): number | null {
+  const match = key.match(/^establishments\/(\d+)\//);
+  return match ? parseInt(match[1]) : null;
+}
+
+function contentTypeFromKey(key: string): string {
+  return ALLOWED_UPLOAD_TYPES[path.extname(key).toLowerCase()]?.[0] ?? "application/octet-stream";
+}
+
+async function buildReport(minAgeMinutes: number): Promise<Report> {
+  const cutoff = Date.now() - minAgeMinutes * 60 * 1000;
+  const blobs = new Map<string, BlobInfo>();
+
+  for await (const blob of blobStore.list(BLOB_PREFIX)) {
+    blobs.set(blob.key, blob);
+  }
+
+  const report: Report = { orphanedBlobs: [], danglingRows: [], legacyRows: [] };
+  const referencedKeys = new Set<string>();
+
+  for (const attachment of await storage.getAllAttachments()) {
+    const legacyKey = attachment.storageKey ? null : keyFromLegacyFilePath(attachment.filePath);
+    const key = attachment.storageKey ?? legacyKey;
+
+    if (!key || !blobs.has(key)) {
+      report.danglingRows.push(attachment);
+      continue;
+    }
+
+    referencedKeys.add(key);
+    if (legacyKey) {
+      report.legacyRows.push({ attachment, key: legacyKey });
+    }
+  }
+
+  for (const blob of Array.from(blobs.values())) {
+    // Recent blobs may belong to an upload whose row has not committed yet
+    const isRecent = blob.lastModified !== null && blob.lastModified.getTime() > cutoff;
+    if (!referencedKeys.has(blob.key) && !isRecent) {
+      report.orphanedBlobs.push(blob);
+    }
+  }
+
+  return report;
+}
+
+// Record keys for legacy rows and turn orphaned blobs of live establishments back into attachments
+async function repair(report: Report): Promise<void> {
+  for (const { attachment, key } of report.legacyRows) {
+    await storage.setAttachmentStorageKey(attachment.id, key, getBlobUrl(key));
+    console.log(`  recorded key for attachment ${attachment.id}: ${key}`);
+  }
+  report.legacyRows = [];
+
+  const establishments = new Map<number, Establishment | undefined>();
+  const remaining: BlobInfo[] = [];
+
+  for (const blob of report.orphanedBlobs) {
+    const establishmentId = establishmentIdFromKey(blob.key);
+    if (establishmentId === null) {
+      remaining.push(blob);
+      continue;
+    }
+
+    if (!establishments.has(establishmentId)) {
+      establishments.set(establishmentId, await storage.getEstablishment(establishmentId));
+    }
+    const establishment = establishments.get(establishmentId);
+    if (!establishment) {
+      remaining.push(blob);
+      continue;
+    }
+
+    const attachment = await storage.createAttachment({
+      fileName: path.basename(blob.key),
+      fileType: contentTypeFromKey(blob.key),
+      fileSize: formatFileSize(blob.size),
+      filePath: getBlobUrl(blob.key),
+      storageKey: blob.key,
+      establishmentId,
+      userId: establishment.userId,
+    }, null);
+    console.log(`  adopted ${blob.key} as attachment ${attachment.id}`);
+  }
+  report.orphanedBlobs = remaining;
+}
+
+// Delete orphaned blobs and rows whose blob is gone
+async function purge(report: Report): Promise<void> {
+  for (const blob of report.orphanedBlobs) {
+    await blobStore.delete(blob.key);
+    console.log(`  deleted blob ${blob.key}`);
+  }
+  report.orphanedBlobs = [];
+
+  for (const attachment of report.danglingRows) {
+    await storage.purgeAttachment(attachment.id, async () => {}, null);
+    console.log(`  deleted attachment ${attachment.id} (${attachment.fileName})`);
+  }
+  report.danglingRows = [];
+}
+
+function printReport(report: Report) {
+  console.log(`Orphaned blobs: ${report.orphanedBlobs.length}`);
+  for (const blob of report.orphanedBlobs) {
+    console.log(`  ${blob.key} (${formatFileSize(blob.size)})`);
+  }
+
+  console.log(`Dangling attachments: ${report.danglingRows.length}`);
+  for (const attachment of report.danglingRows) {
+    console.log(`  #${attachment.id} ${attachment.fileName} -> ${attachment.storageKey ?? attachment.filePath}`);
+  }
+
+  console.log(`Legacy attachments without a storage key: ${report.legacyRows.length}`);
+  for (const { attachment, key } of report.legacyRows) {
+    console.log(`  #${attachment.id} ${attachment.fileName} -> ${key}`);
+  }
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const report = await buildReport(options.minAgeMinutes);
+  printReport(report);
+
+  if (options.repair) {
+    console.log("Repairing...");
+    await repair(report);
+  }
+  if (options.purge) {
+    console.log("Purging...");
+    await purge(report);
+  }
+
+  const remaining = report.orphanedBlobs.length + report.danglingRows.length + report.legacyRows.length;
+  if (options.repair || options.purge) {
+    console.log(`${remaining} inconsistencies remain`);
+  }
+  process.exitCode = remaining > 0 ? 1 : 0;
+}
+
+main()
+  .catch((error) => {
+    console.error("Reconciliation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,20 +1,233 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import passport from "passport";
+import swaggerUi from "swagger-ui-express";
+import {
+  storage,
+  InvalidCursorError,
+  DuplicateReviewError,
+  DuplicateUserError,
+  DuplicateSlugError,
+  TermInUseError,
+  InvalidParentError,
+  UnknownTagError,
+  LocationInUseError,
+  RevertConflictError,
+  VersionConflictError,
+  type EstablishmentFilters
+} from "./storage";
+import { setupAuth, requireAuth, requirePermission, toPublicUser, withPermissions } from "./auth";
+import { hashPassword } from "./passwords";
+import { can, PERMISSIONS } from "@shared/permissions";
+import { isValidTimeZone } from "@shared/hours";
+import { acceptUpload, acceptImportFile, formatFileSize, removeUpload } from "./uploads";
+import { readSheet, guessMapping, validateSheet, ImportFileError } from "./import";
+import { sendExport } from "./export";
+import { blobStore, attachmentBlobKey, getBlobUrl, removeBlobs } from "./blobs";
+import { geocoder } from "./geocoding";
+import { generateOpenApiDocument } from "./openapi";
 import { 
   insertUserSchema, 
-  insertEstablishmentSchema, 
+  insertEstablishmentSchema,
+  updateEstablishmentSchema, 
   insertAttachmentSchema,
-  userValidationSchema
+  userValidationSchema,
+  loginSchema,
+  updateUserRoleSchema,
+  reviewInputSchema,
+  scheduleInputSchema,
+  insertCategorySchema,
+  insertLocationSchema,
+  establishmentTagsSchema,
+  TAXONOMY_KINDS,
+  MIN_RATING,
+  MAX_RATING,
+  ADDRESS_FIELDS,
+  versionETag,
+  pickAddress,
+  importMappingSchema,
+  EXPORT_FORMATS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type ExportFormat,
+  type ImportReport,
+  type Establishment,
+  type User
 } from "@shared/schema";
+import { contract, apiRoutes, type ApiRoute, type ApiResponse, type ApiPathParams, type ApiErrorBody } from "@shared/api";
 import { z } from "zod";
 
+// Parse an optional rating query param; NaN marks a value that is present but invalid
+function parseRating(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const rating = Number(value);
+  return rating >= MIN_RATING && rating <= MAX_RATING ? rating : NaN;
+}
+
+const MAX_RADIUS_KM = 500;
+
+// Parse a query param that must be a number within [min, max]; NaN when missing or invalid
+function parseBoundedNumber(value: unknown, min: number, max: number): number {
+  if (typeof value !== "string" || value.trim() === "") return NaN;
+  const number = Number(value);
+  return number >= min && number <= max ? number : NaN;
+}
+
+const openAtSchema = z.string().datetime({ offset: true });
+
+// The filters and order of the establishment list, shared by the list and its export;
+// an error message for the first invalid param
+function parseListQuery(query: Request["query"]): { filters: EstablishmentFilters; sortBy?: string } | { error: string } {
+  const q = (query.q as string | undefined)?.trim() || undefined;
+  
+  const filters: EstablishmentFilters = {
+    q,
+    category: query.category as string | undefined,
+    tag: query.tag as string | undefined,
+    district: query.district as string | undefined,
+    locationId: query.location === undefined ? undefined : Number(query.location),
+    minRating: parseRating(query.minRating),
+    maxRating: parseRating(query.maxRating)
+  };
+  
+  if (filters.locationId !== undefined && !Number.isInteger(filters.locationId)) {
+    return { error: "location must be a location ID" };
+  }
+  
+  if (Number.isNaN(filters.minRating) || Number.isNaN(filters.maxRating)) {
+    return { error: `minRating and maxRating must be numbers between ${MIN_RATING} and ${MAX_RATING}` };
+  }
+  
+  if (filters.minRating !== undefined && filters.maxRating !== undefined && filters.minRating > filters.maxRating) {
+    return { error: "minRating cannot be greater than maxRating" };
+  }
+  
+  // lat/lng measure distances from a point; radius (km) also limits results to those nearby
+  if (query.lat !== undefined || query.lng !== undefined) {
+    const latitude = parseBoundedNumber(query.lat, -90, 90);
+    const longitude = parseBoundedNumber(query.lng, -180, 180);
+    
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      return { error: "lat and lng must both be given as valid coordinates" };
+    }
+    
+    const radiusKm = query.radius === undefined ? undefined : parseBoundedNumber(query.radius, 0, MAX_RADIUS_KM);
+    
+    if (Number.isNaN(radiusKm)) {
+      return { error: `radius must be a number of km up to ${MAX_RADIUS_KM}` };
+    }
+    
+    filters.near = { latitude, longitude, radiusKm };
+  } else if (query.radius !== undefined) {
+    return { error: "radius requires lat and lng" };
+  }
+  
+  // openNow=true, or openAt=<ISO 8601 date-time with offset> for another moment
+  if (query.openNow !== undefined && query.openAt !== undefined) {
+    return { error: "Use either openNow or openAt, not both" };
+  }
+  
+  if (query.openNow !== undefined) {
+    if (query.openNow !== "true" && query.openNow !== "false") {
+      return { error: "openNow must be true or false" };
+    }
+    if (query.openNow === "true") {
+      filters.openAt = new Date();
+    }
+  } else if (query.openAt !== undefined) {
+    const openAt = openAtSchema.safeParse(query.openAt);
+    
+    if (!openAt.success) {
+      return { error: "openAt must be an ISO 8601 date-time with a time zone offset, e.g. 2025-06-01T18:30:00+02:00" };
+    }
+    
+    filters.openAt = new Date(openAt.data);
+  }
+  
+  // Searches rank by relevance unless another order is asked for
+  const sortBy = (query.sortBy as string | undefined) ?? (q ? "Relevance" : undefined);
+  
+  return { filters, sortBy };
+}
+
+// The city and district a location sits in, which become the establishment's address;
+// undefined when there is no such location. Cities are always at the root of the tree.
+async function placesOfLocation(locationId: number): Promise<{ city: string; district: string | null } | undefined> {
+  const path = await storage.getLocationPath(locationId);
+  if (path.length === 0) return undefined;
+  
+  return {
+    city: path[0].name,
+    district: path.find((location) => location.kind === "district")?.name ?? null,
+  };
+}
+
+// An establishment as GET /api/establishments/:id returns it
+async function establishmentDetails(user: Express.User | undefined, establishment: Establishment) {
+  const tags = await storage.getEstablishmentTags(establishment.id);
+  const locationPath = establishment.locationId ? await storage.getLocationPath(establishment.locationId) : [];
+  return withPermissions(user, "establishment", { ...establishment, tags, locationPath });
+}
+
+// The version an If-Match header was sent for: undefined for "*", which accepts any, and NaN for
+// tags this API never issued, which match nothing
+function parseIfMatch(header: string): number | undefined {
+  const tag = header.trim();
+  if (tag === "*") return undefined;
+  return /^"\d+"$/.test(tag) ? parseInt(tag.slice(1, -1)) : NaN;
+}
+
+// Reject one field of a request body, in the shape of a validation error
+function sendFieldError(res: Response, field: string, message: string) {
+  return res.status(400).json({ error: [{ path: [field], message }] });
+}
+
+// Answer a stale If-Match with the establishment as it stands now, so the client can merge
+async function sendVersionConflict(req: Request, res: Response, establishmentId: number) {
+  const current = await storage.getEstablishment(establishmentId);
+  
+  if (!current) {
+    return res.status(404).json({ error: "Establishment not found" });
+  }
+  
+  res.setHeader("ETag", versionETag(current.version));
+  res.status(412).json({
+    error: "Someone else changed this establishment since you loaded it",
+    current: await establishmentDetails(req.user, current),
+  });
+}
+
+// A handler for a route of the API contract: anything it sends as JSON must be the route's
+// response or an error
+type ContractHandler<R extends ApiRoute> = (
+  req: Request<ApiPathParams<R>>,
+  res: Response<ApiResponse<R> | ApiErrorBody>,
+  next: NextFunction
+) => unknown;
+
+// Contract routes given a handler so far; registerRoutes fails unless every one is
+const implementedRoutes = new Set<ApiRoute>();
+
+// Serve a route of the API contract at its method and path
+function implement<R extends ApiRoute>(app: Express, route: R, ...handlers: ContractHandler<R>[]) {
+  // The OpenAPI check compares the document with the contract, so nothing else may be served
+  if (!apiRoutes.includes(route)) {
+    throw new Error(`${route.method.toUpperCase()} ${route.path} is not in the API contract`);
+  }
+  implementedRoutes.add(route);
+  app[route.method](route.path, ...(handlers as unknown as RequestHandler[]));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+  
   const apiRouter = app.route('/api');
   
   // -------------- User Routes --------------
   // Register user
-  app.post("/api/users/register", async (req: Request, res: Response) => {
+  implement(app, contract.users.register, async (req, res) => {
     try {
       const validatedData = userValidationSchema.parse(req.body);
       const { confirmPassword, ...userData } = validatedData;
@@ -25,18 +238,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Username already exists" });
       }
       
-      const newUser = await storage.createUser(userData);
-      res.status(201).json(newUser);
+      // Nothing proves the email belongs to whoever registers, so it never makes them a bootstrap admin
+      const newUser = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password)
+      });
+      
+      // Start a session for the new user
+      req.login(newUser, (err) => {
+        if (err) {
+          return res.status(500).json({ error: "Failed to start session" });
+        }
+        res.status(201).json(toPublicUser(newUser));
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      // Taken by another registration since the check above, or the email is
+      if (error instanceof DuplicateUserError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to create user" });
     }
   });
 
+  // Log in with username and password
+  implement(app, contract.users.login, (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors });
+    }
+    
+    passport.authenticate("local", (err: unknown, user: User | false) => {
+      if (err) {
+        return res.status(500).json({ error: "Failed to log in" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          return res.status(500).json({ error: "Failed to start session" });
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Log out and destroy the session
+  implement(app, contract.users.logout, (req, res) => {
+    req.logout((err) => {
+      if (err) {
+        return res.status(500).json({ error: "Failed to log out" });
+      }
+      
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  // Get the currently signed-in user
+  implement(app, contract.users.me, requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // List all users (admin only)
+  implement(app, contract.users.list, requirePermission("user:list"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get users" });
+    }
+  });
+
+  // Change a user's role (admin only)
+  implement(app, contract.users.updateRole, requirePermission("user:update-role"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+      
+      // Admins cannot demote themselves and lock everyone out
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+      
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const user = await storage.updateUserRole(userId, role);
+      
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
   // Get user by ID
-  app.get("/api/users/:id", async (req: Request, res: Response) => {
+  implement(app, contract.users.get, async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -50,33 +361,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
       
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       res.status(500).json({ error: "Failed to get user" });
     }
   });
 
   // -------------- Establishment Routes --------------
-  // Get all establishments with optional filters
-  app.get("/api/establishments", async (req: Request, res: Response) => {
+  // Get all establishments with optional filters and full-text search
+  implement(app, contract.establishments.list, async (req, res) => {
     try {
-      const filters = {
-        category: req.query.category as string | undefined,
-        location: req.query.location as string | undefined,
-        rating: req.query.rating as string | undefined
-      };
+      const listQuery = parseListQuery(req.query);
       
-      const sortBy = req.query.sortBy as string | undefined;
+      if ("error" in listQuery) {
+        return res.status(400).json({ error: listQuery.error });
+      }
       
-      const establishments = await storage.getEstablishments(filters, sortBy);
-      res.json(establishments);
+      const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+      
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+      }
+      
+      const page = await storage.getEstablishments(listQuery.filters, listQuery.sortBy, {
+        limit,
+        cursor: req.query.cursor as string | undefined
+      });
+      
+      res.json({
+        ...page,
+        items: page.items.map((establishment) => withPermissions(req.user, "establishment", establishment))
+      });
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to get establishments" });
     }
   });
 
+  // Download every establishment the list would show, with the same filters and order, as
+  // format=csv, json or xlsx; streamed, so there is no limit or cursor
+  implement(app, contract.establishments.export, async (req, res) => {
+    try {
+      const format = (req.query.format as string | undefined) ?? "csv";
+      
+      if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+      }
+      
+      const listQuery = parseListQuery(req.query);
+      
+      if ("error" in listQuery) {
+        return res.status(400).json({ error: listQuery.error });
+      }
+      
+      await sendExport(res, format as ExportFormat, listQuery.filters, listQuery.sortBy);
+    } catch (error) {
+      console.error("Failed to export establishments:", error);
+      if (!res.headersSent) {
+        res.removeHeader("Content-Disposition");
+        return res.status(500).json({ error: "Failed to export establishments" });
+      }
+      // Part of the file has gone out; cut it short rather than let it look complete
+      res.destroy();
+    }
+  });
+
   // Get establishment by ID
-  app.get("/api/establishments/:id", async (req: Request, res: Response) => {
+  implement(app, contract.establishments.get, async (req, res) => {
     try {
       const establishmentId = parseInt(req.params.id);
       
@@ -90,35 +443,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Establishment not found" });
       }
       
-      res.json(establishment);
+      res.setHeader("ETag", versionETag(establishment.version));
+      res.json(await establishmentDetails(req.user, establishment));
     } catch (error) {
       res.status(500).json({ error: "Failed to get establishment" });
     }
   });
 
   // Create establishment
-  app.post("/api/establishments", async (req: Request, res: Response) => {
+  implement(app, contract.establishments.create, requirePermission("establishment:create"), async (req, res) => {
     try {
-      // Add default userId of 1 if not provided
-      const dataWithDefaults = {
+      // The signed-in user always owns what they create
+      const establishmentData = insertEstablishmentSchema.parse({
         ...req.body,
-        userId: req.body.userId || 1
-      };
+        userId: req.user!.id
+      });
+      const tags = establishmentTagsSchema.optional().parse(req.body.tags);
+      
+      if ((establishmentData.latitude == null) !== (establishmentData.longitude == null)) {
+        return res.status(400).json({ error: "latitude and longitude must be set together" });
+      }
+      
+      if (!(await storage.getTermBySlug("categories", establishmentData.category))) {
+        return res.status(400).json({ error: `Unknown category "${establishmentData.category}"` });
+      }
+      
+      // Filing it under a location sets the city and district of its address
+      if (establishmentData.locationId) {
+        const places = await placesOfLocation(establishmentData.locationId);
+        
+        if (!places) {
+          return res.status(400).json({ error: "Unknown location" });
+        }
+        
+        Object.assign(establishmentData, places);
+      }
       
-      const establishmentData = insertEstablishmentSchema.parse(dataWithDefaults);
-      const newEstablishment = await storage.createEstablishment(establishmentData);
-      res.status(201).json(newEstablishment);
+      // Store the address in its canonical form, and place it on the map unless the client already did
+      const { address, coordinates } = await geocoder.geocode(pickAddress(establishmentData));
+      const newEstablishment = await storage.createEstablishment({
+        ...establishmentData,
+        ...address,
+        city: address.city ?? establishmentData.city,
+        ...(coordinates && establishmentData.latitude == null ? coordinates : {})
+      }, tags ?? [], req.user!.id);
+      const appliedTags = await storage.getEstablishmentTags(newEstablishment.id);
+      res.setHeader("ETag", versionETag(newEstablishment.version));
+      res.status(201).json(withPermissions(req.user, "establishment", { ...newEstablishment, tags: appliedTags }));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      if (error instanceof UnknownTagError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Failed to create establishment:", error);
       res.status(500).json({ error: "Failed to create establishment" });
     }
   });
 
-  // Update establishment
-  app.patch("/api/establishments/:id", async (req: Request, res: Response) => {
+  // Import establishments from a CSV or XLSX sheet. Every row is checked and reported; unless dryRun
+  // is "false" nothing is created, otherwise the valid rows are created together or not at all.
+  // mapping (JSON) overrides the fields guessed from the column headers, and timezone applies to
+  // rows that do not name their own.
+  implement(app, contract.establishments.import,
+    requirePermission("establishment:create"),
+    acceptImportFile,
+    async (req, res) => {
+      try {
+        const dryRun = req.body.dryRun !== "false";
+        const sheet = await readSheet(req.file!.buffer, req.file!.originalname);
+        const mapping = {
+          ...guessMapping(sheet.columns),
+          ...(req.body.mapping ? importMappingSchema.parse(JSON.parse(req.body.mapping)) : {})
+        };
+        const timezone = typeof req.body.timezone === "string" && isValidTimeZone(req.body.timezone)
+          ? req.body.timezone
+          : undefined;
+        
+        const { rows, candidates } = await validateSheet(sheet, mapping, req.user!.id, timezone);
+        let created = 0;
+        
+        if (!dryRun && candidates.length > 0) {
+          const establishments = await storage.createEstablishments(candidates, req.user!.id);
+          candidates.forEach((candidate, index) => {
+            rows.find((row) => row.row === candidate.row)!.establishmentId = establishments[index].id;
+          });
+          created = establishments.length;
+        }
+        
+        const report: ImportReport = {
+          dryRun,
+          columns: sheet.columns,
+          mapping,
+          rows,
+          counts: {
+            valid: rows.filter((row) => row.status === "valid").length,
+            invalid: rows.filter((row) => row.status === "invalid").length,
+            duplicate: rows.filter((row) => row.status === "duplicate").length,
+          },
+          created,
+        };
+        res.status(dryRun ? 200 : 201).json(report);
+      } catch (error) {
+        if (error instanceof ImportFileError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof SyntaxError) {
+          return res.status(400).json({ error: "mapping must be a JSON object" });
+        }
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        if (error instanceof UnknownTagError) {
+          return res.status(409).json({ error: `${error.message}; check the import again` });
+        }
+        console.error("Failed to import establishments:", error);
+        res.status(500).json({ error: "Failed to import establishments" });
+      }
+    }
+  );
+
+  // Update establishment; If-Match must carry the ETag of the version the changes were made to
+  implement(app, contract.establishments.update, requirePermission("establishment:update"), async (req, res) => {
     try {
       const establishmentId = parseInt(req.params.id);
       
@@ -126,21 +573,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid establishment ID" });
       }
       
+      const ifMatch = req.get("If-Match");
+      
+      if (!ifMatch) {
+        return res.status(428).json({ error: "Send the establishment's ETag in an If-Match header" });
+      }
+      
       const establishment = await storage.getEstablishment(establishmentId);
       
       if (!establishment) {
         return res.status(404).json({ error: "Establishment not found" });
       }
       
-      const updatedEstablishment = await storage.updateEstablishment(establishmentId, req.body);
-      res.json({ success: updatedEstablishment });
+      if (!can(req.user, "establishment:update", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can update this establishment" });
+      }
+      
+      const { tags, ...changes } = updateEstablishmentSchema.parse(req.body);
+      
+      if (changes.category !== undefined && !(await storage.getTermBySlug("categories", changes.category))) {
+        return sendFieldError(res, "category", `Unknown category "${changes.category}"`);
+      }
+      
+      if (changes.locationId) {
+        const places = await placesOfLocation(changes.locationId);
+        
+        if (!places) {
+          return sendFieldError(res, "locationId", "Unknown location");
+        }
+        
+        Object.assign(changes, places);
+      }
+      
+      if (ADDRESS_FIELDS.some((field) => field in changes)) {
+        const { address, coordinates } = await geocoder.geocode(pickAddress({ ...establishment, ...changes }));
+        Object.assign(changes, address);
+        // A new address moves the pin too, unless the request placed it itself
+        if (coordinates && changes.latitude == null) {
+          Object.assign(changes, coordinates);
+        }
+      }
+      
+      const updatedEstablishment = await storage.updateEstablishment(
+        establishmentId,
+        changes,
+        tags,
+        req.user!.id,
+        parseIfMatch(ifMatch)
+      );
+      
+      if (updatedEstablishment) {
+        res.setHeader("ETag", versionETag(updatedEstablishment.version));
+      }
+      
+      res.json({ success: updatedEstablishment !== undefined });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof UnknownTagError) {
+        return sendFieldError(res, "tags", error.message);
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(req, res, parseInt(req.params.id));
+      }
       res.status(500).json({ error: "Failed to update establishment" });
     }
   });
 
-  // Delete establishment
-  app.delete("/api/establishments/:id", async (req: Request, res: Response) => {
+  // Delete establishment; If-Match must carry the ETag of the version being deleted
+  implement(app, contract.establishments.delete, requirePermission("establishment:delete"), async (req, res) => {
     try {
       const establishmentId = parseInt(req.params.id);
       
@@ -148,22 +650,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid establishment ID" });
       }
       
+      const ifMatch = req.get("If-Match");
+      
+      if (!ifMatch) {
+        return res.status(428).json({ error: "Send the establishment's ETag in an If-Match header" });
+      }
+      
       const establishment = await storage.getEstablishment(establishmentId);
       
       if (!establishment) {
         return res.status(404).json({ error: "Establishment not found" });
       }
       
-      const deleted = await storage.deleteEstablishment(establishmentId);
+      if (!can(req.user, "establishment:delete", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can delete this establishment" });
+      }
+      
+      // Its files go to the trash with it; their blobs stay until it is purged
+      const deleted = await storage.deleteEstablishment(establishmentId, req.user!.id, parseIfMatch(ifMatch));
       res.json({ success: deleted });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(req, res, parseInt(req.params.id));
+      }
       res.status(500).json({ error: "Failed to delete establishment" });
     }
   });
 
-  // -------------- Attachment Routes --------------
-  // Get all attachments for an establishment
-  app.get("/api/establishments/:id/attachments", async (req: Request, res: Response) => {
+  // Get an establishment's opening hours and exception dates
+  implement(app, contract.establishments.getHours, async (req, res) => {
     try {
       const establishmentId = parseInt(req.params.id);
       
@@ -171,53 +686,455 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid establishment ID" });
       }
       
+      const schedule = await storage.getSchedule(establishmentId);
+      
+      if (!schedule) {
+        return res.status(404).json({ error: "Establishment not found" });
+      }
+      
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get opening hours" });
+    }
+  });
+
+  // Replace an establishment's opening hours, exception dates and time zone; If-Match must carry
+  // the ETag of the version being changed, as the time zone is one of its fields
+  implement(app, contract.establishments.setHours, requirePermission("establishment:update"), async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const ifMatch = req.get("If-Match");
+      
+      if (!ifMatch) {
+        return res.status(428).json({ error: "Send the establishment's ETag in an If-Match header" });
+      }
+      
       const establishment = await storage.getEstablishment(establishmentId);
       
       if (!establishment) {
         return res.status(404).json({ error: "Establishment not found" });
       }
       
-      const attachments = await storage.getAttachments(establishmentId);
-      res.json(attachments);
+      if (!can(req.user, "establishment:update", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can update this establishment" });
+      }
+      
+      const schedule = scheduleInputSchema.parse(req.body);
+      const result = await storage.setSchedule(establishmentId, schedule, req.user!.id, parseIfMatch(ifMatch));
+      
+      if (!result) {
+        return res.status(404).json({ error: "Establishment not found" });
+      }
+      
+      res.setHeader("ETag", versionETag(result.establishment.version));
+      res.json(result.schedule);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get attachments" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(req, res, parseInt(req.params.id));
+      }
+      res.status(500).json({ error: "Failed to update opening hours" });
     }
   });
 
-  // Create attachment
-  app.post("/api/attachments", async (req: Request, res: Response) => {
+  // Get who changed an establishment and its attachments, newest first. Kept after a delete,
+  // so it answers for ids that no longer exist.
+  implement(app, contract.establishments.history, requirePermission("establishment:update"), async (req, res) => {
     try {
-      // Add default userId of 1 if not provided
-      const dataWithDefaults = {
-        ...req.body,
-        userId: req.body.userId || 1
-      };
+      const establishmentId = parseInt(req.params.id);
       
-      const attachmentData = insertAttachmentSchema.parse(dataWithDefaults);
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
       
-      // Verify establishment exists
-      if (typeof attachmentData.establishmentId === 'number') {
-        const establishment = await storage.getEstablishment(attachmentData.establishmentId);
-        if (!establishment) {
-          return res.status(404).json({ error: "Establishment not found" });
+      // The history is for those who may edit the establishment; once it is in the trash, for
+      // those who may restore it, and once purged, for admins
+      const establishment = await storage.getEstablishment(establishmentId);
+      if (establishment) {
+        if (!can(req.user, "establishment:update", establishment.userId)) {
+          return res.status(403).json({ error: "Only the owner or an admin can see this history" });
         }
       } else {
-        return res.status(400).json({ error: "Invalid establishment ID" });
+        const trashed = await storage.getTrashedEstablishment(establishmentId);
+        const mayRead = trashed
+          ? can(req.user, "establishment:delete", trashed.userId)
+          : PERMISSIONS[req.user!.role]["establishment:update"] === "any";
+        if (!mayRead) {
+          return res.status(404).json({ error: "Establishment not found" });
+        }
+      }
+      
+      res.json(await storage.getHistory(establishmentId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get history" });
+    }
+  });
+
+  // Undo an update by writing back the values it replaced
+  implement(app, contract.establishments.revert, requirePermission("establishment:update"), async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      
+      if (isNaN(establishmentId) || isNaN(entryId)) {
+        return res.status(400).json({ error: "Invalid establishment or history entry ID" });
+      }
+      
+      const establishment = await storage.getEstablishment(establishmentId);
+      
+      if (!establishment) {
+        return res.status(404).json({ error: "Establishment not found" });
+      }
+      
+      if (!can(req.user, "establishment:update", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can update this establishment" });
+      }
+      
+      const entry = await storage.getAuditEntry(entryId);
+      
+      if (!entry || entry.establishmentId !== establishmentId) {
+        return res.status(404).json({ error: "History entry not found" });
+      }
+      
+      if (entry.entityType !== "establishment" || entry.action !== "update") {
+        return res.status(400).json({ error: "Only changes to the establishment's details can be reverted" });
+      }
+      
+      const reverted = await storage.revertAuditEntry(entry, req.user!.id);
+      res.json({ success: reverted });
+    } catch (error) {
+      if (error instanceof RevertConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to revert change" });
+    }
+  });
+
+  // -------------- Taxonomy Routes --------------
+  // Categories and tags share their endpoints: anyone can read them, admins manage them
+  for (const kind of TAXONOMY_KINDS) {
+    const termRoutes = contract[kind];
+    const label = kind === "categories" ? "Category" : "Tag";
+    
+    implement(app, termRoutes.list, async (_req, res) => {
+      try {
+        res.json(await storage.getTerms(kind));
+      } catch (error) {
+        res.status(500).json({ error: `Failed to get ${kind}` });
+      }
+    });
+    
+    implement(app, termRoutes.create, requirePermission("taxonomy:manage"), async (req, res) => {
+      try {
+        const term = await storage.createTerm(kind, insertCategorySchema.parse(req.body));
+        res.status(201).json(term);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        if (error instanceof InvalidParentError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof DuplicateSlugError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(500).json({ error: `Failed to create ${label.toLowerCase()}` });
+      }
+    });
+    
+    implement(app, termRoutes.update, requirePermission("taxonomy:manage"), async (req, res) => {
+      try {
+        const termId = parseInt(req.params.id);
+        
+        if (isNaN(termId)) {
+          return res.status(400).json({ error: `Invalid ${label.toLowerCase()} ID` });
+        }
+        
+        // Renaming a category's slug carries over to its establishments (on update cascade)
+        const term = await storage.updateTerm(kind, termId, insertCategorySchema.partial().parse(req.body), req.user!.id);
+        
+        if (!term) {
+          return res.status(404).json({ error: `${label} not found` });
+        }
+        
+        res.json(term);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        if (error instanceof InvalidParentError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof DuplicateSlugError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(500).json({ error: `Failed to update ${label.toLowerCase()}` });
+      }
+    });
+    
+    implement(app, termRoutes.delete, requirePermission("taxonomy:manage"), async (req, res) => {
+      try {
+        const termId = parseInt(req.params.id);
+        
+        if (isNaN(termId)) {
+          return res.status(400).json({ error: `Invalid ${label.toLowerCase()} ID` });
+        }
+        
+        const deleted = await storage.deleteTerm(kind, termId, req.user!.id);
+        
+        if (!deleted) {
+          return res.status(404).json({ error: `${label} not found` });
+        }
+        
+        res.json({ success: true });
+      } catch (error) {
+        if (error instanceof TermInUseError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(500).json({ error: `Failed to delete ${label.toLowerCase()}` });
+      }
+    });
+  }
+  
+  // -------------- Location Routes --------------
+  // The whole location tree as a flat list; parentId links each node to the one above it
+  implement(app, contract.locations.list, async (_req, res) => {
+    try {
+      res.json(await storage.getLocations());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get locations" });
+    }
+  });
+  
+  // A location and its ancestors, root first, e.g. for breadcrumbs
+  implement(app, contract.locations.path, async (req, res) => {
+    try {
+      const locationId = parseInt(req.params.id);
+      
+      if (isNaN(locationId)) {
+        return res.status(400).json({ error: "Invalid location ID" });
+      }
+      
+      const path = await storage.getLocationPath(locationId);
+      
+      if (path.length === 0) {
+        return res.status(404).json({ error: "Location not found" });
       }
       
-      const newAttachment = await storage.createAttachment(attachmentData);
-      res.status(201).json(newAttachment);
+      res.json(path);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get location path" });
+    }
+  });
+  
+  implement(app, contract.locations.create, requirePermission("location:manage"), async (req, res) => {
+    try {
+      const location = await storage.createLocation(insertLocationSchema.parse(req.body));
+      res.status(201).json(location);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      console.error("Failed to create attachment:", error);
-      res.status(500).json({ error: "Failed to create attachment" });
+      if (error instanceof InvalidParentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create location" });
+    }
+  });
+  
+  implement(app, contract.locations.update, requirePermission("location:manage"), async (req, res) => {
+    try {
+      const locationId = parseInt(req.params.id);
+      
+      if (isNaN(locationId)) {
+        return res.status(400).json({ error: "Invalid location ID" });
+      }
+      
+      const location = await storage.updateLocation(locationId, insertLocationSchema.partial().parse(req.body), req.user!.id);
+      
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof InvalidParentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof LocationInUseError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+  
+  implement(app, contract.locations.delete, requirePermission("location:manage"), async (req, res) => {
+    try {
+      const locationId = parseInt(req.params.id);
+      
+      if (isNaN(locationId)) {
+        return res.status(400).json({ error: "Invalid location ID" });
+      }
+      
+      const deleted = await storage.deleteLocation(locationId);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof LocationInUseError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete location" });
+    }
+  });
+  
+  // Districts in use, for filtering establishments
+  implement(app, contract.locations.districts, async (_req, res) => {
+    try {
+      res.json(await storage.getDistricts());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get districts" });
+    }
+  });
+
+  // -------------- Attachment Routes --------------
+  // Get all attachments for an establishment
+  implement(app, contract.attachments.list, async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const establishment = await storage.getEstablishment(establishmentId);
+      
+      if (!establishment) {
+        return res.status(404).json({ error: "Establishment not found" });
+      }
+      
+      const attachments = await storage.getAttachments(establishmentId);
+      res.json(attachments.map((attachment) => withPermissions(req.user, "attachment", attachment)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get attachments" });
+    }
+  });
+
+  // Upload a file and record it as an attachment in one request
+  implement(app, contract.attachments.upload,
+    requirePermission("attachment:create"),
+    async (req, res, next) => {
+      // Check the establishment before accepting any bytes
+      try {
+        const establishmentId = parseInt(req.params.id);
+        
+        if (isNaN(establishmentId)) {
+          return res.status(400).json({ error: "Invalid establishment ID" });
+        }
+        
+        const establishment = await storage.getEstablishment(establishmentId);
+        
+        if (!establishment) {
+          return res.status(404).json({ error: "Establishment not found" });
+        }
+        
+        next();
+      } catch (error) {
+        res.status(500).json({ error: "Failed to upload attachment" });
+      }
+    },
+    acceptUpload,
+    async (req, res) => {
+      const file = req.file!;
+      const establishmentId = parseInt(req.params.id);
+      const storageKey = attachmentBlobKey(establishmentId, file.originalname);
+      let blobStored = false;
+      
+      try {
+        const attachmentData = insertAttachmentSchema.parse({
+          fileName: file.originalname,
+          fileType: file.mimetype,
+          fileSize: formatFileSize(file.size),
+          filePath: getBlobUrl(storageKey),
+          storageKey,
+          establishmentId,
+          userId: req.user!.id
+        });
+        
+        // The row only commits once the blob is stored
+        const newAttachment = await storage.createAttachmentWithBlob(attachmentData, async () => {
+          await blobStore.put(storageKey, fs.createReadStream(file.path), {
+            contentType: file.mimetype,
+            size: file.size
+          });
+          blobStored = true;
+        }, req.user!.id);
+        res.status(201).json(withPermissions(req.user, "attachment", newAttachment));
+      } catch (error) {
+        // A blob stored before a failed commit has no row; remove it
+        if (blobStored) {
+          await blobStore.delete(storageKey).catch((deleteError) => {
+            console.error("Failed to remove orphaned blob:", deleteError);
+          });
+        }
+        
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        console.error("Failed to upload attachment:", error);
+        res.status(500).json({ error: "Failed to upload attachment" });
+      } finally {
+        await removeUpload(file.path).catch((removeError) => {
+          console.error("Failed to remove spooled upload:", removeError);
+        });
+      }
+    }
+  );
+
+  // Download an attachment's file from the blob store
+  implement(app, contract.attachments.download, async (req, res) => {
+    try {
+      const storageKey = req.params.storageKey;
+      
+      // Only serve blobs that belong to a known attachment
+      const attachment = await storage.getAttachmentByStorageKey(storageKey);
+      
+      if (!attachment) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      
+      const blob = await blobStore.get(storageKey);
+      
+      if (!blob) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      
+      res.setHeader("Content-Type", attachment.fileType);
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      await pipeline(blob, res);
+    } catch (error) {
+      console.error("Failed to download file:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to download file" });
+      }
     }
   });
 
   // Delete attachment
-  app.delete("/api/attachments/:id", async (req: Request, res: Response) => {
+  implement(app, contract.attachments.delete, requirePermission("attachment:delete"), async (req, res) => {
     try {
       const attachmentId = parseInt(req.params.id);
       
@@ -225,7 +1142,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid attachment ID" });
       }
       
-      const deleted = await storage.deleteAttachment(attachmentId);
+      const attachment = await storage.getAttachment(attachmentId);
+      
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      
+      if (!can(req.user, "attachment:delete", attachment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can delete this attachment" });
+      }
+      
+      // The file goes to the trash; its blob stays until it is purged
+      const deleted = await storage.deleteAttachment(attachmentId, req.user!.id);
       
       if (!deleted) {
         return res.status(404).json({ error: "Attachment not found" });
@@ -237,6 +1165,270 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // -------------- Trash Routes --------------
+  // List deleted establishments and files; admins see everyone's, owners their own
+  implement(app, contract.trash.list, requirePermission("establishment:delete"), async (req, res) => {
+    try {
+      const seesAll = PERMISSIONS[req.user!.role]["establishment:delete"] === "any";
+      const trash = await storage.getTrash(seesAll ? undefined : req.user!.id);
+      
+      res.json({
+        establishments: trash.establishments.map((establishment) => withPermissions(req.user, "establishment", establishment)),
+        attachments: trash.attachments.map((attachment) => withPermissions(req.user, "attachment", attachment)),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get trash" });
+    }
+  });
+
+  // Restore a deleted establishment with the files deleted along with it
+  implement(app, contract.trash.restoreEstablishment, requirePermission("establishment:delete"), async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const establishment = await storage.getTrashedEstablishment(establishmentId);
+      
+      if (!establishment) {
+        return res.status(404).json({ error: "Establishment not found in the trash" });
+      }
+      
+      if (!can(req.user, "establishment:delete", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can restore this establishment" });
+      }
+      
+      const restored = await storage.restoreEstablishment(establishmentId, req.user!.id);
+      res.json({ success: restored });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore establishment" });
+    }
+  });
+
+  // Permanently delete an establishment in the trash, its files and their blobs
+  implement(app, contract.trash.purgeEstablishment, requirePermission("establishment:delete"), async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const establishment = await storage.getTrashedEstablishment(establishmentId);
+      
+      if (!establishment) {
+        return res.status(404).json({ error: "Establishment not found in the trash" });
+      }
+      
+      if (!can(req.user, "establishment:delete", establishment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can purge this establishment" });
+      }
+      
+      const purgedAttachments = await storage.purgeEstablishment(establishmentId, req.user!.id);
+      
+      if (purgedAttachments) {
+        await removeBlobs(purgedAttachments.map((attachment) => attachment.storageKey));
+      }
+      
+      res.json({ success: purgedAttachments !== undefined });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to purge establishment" });
+    }
+  });
+
+  // Restore a deleted file; one deleted with its establishment comes back with the establishment instead
+  implement(app, contract.trash.restoreAttachment, requirePermission("attachment:delete"), async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ error: "Invalid attachment ID" });
+      }
+      
+      const attachment = await storage.getTrashedAttachment(attachmentId);
+      
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found in the trash" });
+      }
+      
+      if (!can(req.user, "attachment:delete", attachment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can restore this attachment" });
+      }
+      
+      if (!(await storage.getEstablishment(attachment.establishmentId))) {
+        return res.status(409).json({ error: "Restore the establishment this file belongs to first" });
+      }
+      
+      const restored = await storage.restoreAttachment(attachmentId, req.user!.id);
+      res.json({ success: restored });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore attachment" });
+    }
+  });
+
+  // Permanently delete a file in the trash and its blob
+  implement(app, contract.trash.purgeAttachment, requirePermission("attachment:delete"), async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ error: "Invalid attachment ID" });
+      }
+      
+      const attachment = await storage.getTrashedAttachment(attachmentId);
+      
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found in the trash" });
+      }
+      
+      if (!can(req.user, "attachment:delete", attachment.userId)) {
+        return res.status(403).json({ error: "Only the owner or an admin can purge this attachment" });
+      }
+      
+      // The row is only removed once its blob is gone
+      const purged = await storage.purgeAttachment(attachmentId, async ({ storageKey }) => {
+        if (storageKey) {
+          await blobStore.delete(storageKey);
+        }
+      }, req.user!.id);
+      
+      res.json({ success: purged });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to purge attachment" });
+    }
+  });
+
+  // -------------- Review Routes --------------
+  // Get reviews for an establishment
+  implement(app, contract.reviews.list, async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const establishmentReviews = await storage.getReviews(establishmentId);
+      res.json(establishmentReviews.map((review) => withPermissions(req.user, "review", review)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get reviews" });
+    }
+  });
+
+  // Review an establishment; each user gets one review per establishment
+  implement(app, contract.reviews.create, requirePermission("review:create"), async (req, res) => {
+    try {
+      const establishmentId = parseInt(req.params.id);
+      
+      if (isNaN(establishmentId)) {
+        return res.status(400).json({ error: "Invalid establishment ID" });
+      }
+      
+      const establishment = await storage.getEstablishment(establishmentId);
+      
+      if (!establishment) {
+        return res.status(404).json({ error: "Establishment not found" });
+      }
+      
+      const input = reviewInputSchema.parse(req.body);
+      const review = await storage.createReview({
+        ...input,
+        establishmentId,
+        userId: req.user!.id
+      });
+      
+      res.status(201).json(withPermissions(req.user, "review", review));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof DuplicateReviewError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create review" });
+    }
+  });
+
+  // Update a review
+  implement(app, contract.reviews.update, requirePermission("review:update"), async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      
+      if (isNaN(reviewId)) {
+        return res.status(400).json({ error: "Invalid review ID" });
+      }
+      
+      const review = await storage.getReview(reviewId);
+      
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      
+      if (!can(req.user, "review:update", review.userId)) {
+        return res.status(403).json({ error: "Only the author or an admin can update this review" });
+      }
+      
+      const input = reviewInputSchema.partial().parse(req.body);
+      const updatedReview = await storage.updateReview(reviewId, input);
+      
+      if (!updatedReview) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      
+      res.json(withPermissions(req.user, "review", updatedReview));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update review" });
+    }
+  });
+
+  // Delete a review
+  implement(app, contract.reviews.delete, requirePermission("review:delete"), async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      
+      if (isNaN(reviewId)) {
+        return res.status(400).json({ error: "Invalid review ID" });
+      }
+      
+      const review = await storage.getReview(reviewId);
+      
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      
+      if (!can(req.user, "review:delete", review.userId)) {
+        return res.status(403).json({ error: "Only the author or an admin can delete this review" });
+      }
+      
+      const deleted = await storage.deleteReview(reviewId);
+      res.json({ success: deleted });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete review" });
+    }
+  });
+
+  // -------------- Docs Routes --------------
+  // The OpenAPI document, and a page to read and try it
+  const openApiDocument = generateOpenApiDocument();
+  
+  implement(app, contract.docs.openapi, (_req, res) => {
+    res.json({ ...openApiDocument });
+  });
+  
+  app.use("/api/docs", swaggerUi.serve, swaggerUi.setup(openApiDocument, {
+    customSiteTitle: "EstablishmentDir API"
+  }));
+
+  const unimplemented = apiRoutes.filter((route) => !implementedRoutes.has(route));
+  if (unimplemented.length > 0) {
+    throw new Error(`No handler for ${unimplemented.map((route) => `${route.method.toUpperCase()} ${route.path}`).join(", ")}`);
+  }
+
   const httpServer = createServer(app);
   return httpServer;
 }
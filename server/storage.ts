@@ -1,38 +1,412 @@
 import { 
-  users, establishments, attachments, 
-  type User, type InsertUser,
+  users, establishments, attachments, reviews, openingHours, hoursExceptions,
+  categories, tags, establishmentTags, locations, auditLog,
+  type User, type InsertUser, type UserRole,
   type Establishment, type InsertEstablishment,
-  type Attachment, type InsertAttachment
+  type Attachment, type InsertAttachment,
+  type Review, type InsertReview, type ReviewInput, type ReviewWithAuthor,
+  type EstablishmentListItem, type Paginated, DEFAULT_PAGE_SIZE,
+  type OpeningHours, type HoursException, type EstablishmentSchedule, type ScheduleInput,
+  type TaxonomyKind, type TaxonomyTerm, type InsertCategory,
+  type Location, type InsertLocation, LOCATION_KINDS,
+  type AuditedEntity, type AuditEntry, type AuditEntryWithActor, type InsertAuditEntry, type FieldChange,
+  type Trash,
+  establishmentSearchVector, formatAddress, ADDRESS_FIELDS
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, gte, like, SQL } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, and, asc, desc, gte, lte, like, count, inArray, isNull, isNotNull, sql, SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+export type EstablishmentFilters = {
+  // Full-text search terms
+  q?: string;
+  // Category and tag slugs; each also matches the terms nested under it
+  category?: string;
+  tag?: string;
+  district?: string;
+  // A node of the location tree; also matches the locations nested under it
+  locationId?: number;
+  // Inclusive bounds on the star rating
+  minRating?: number;
+  maxRating?: number;
+  // Measure distances from this point, optionally keeping only establishments within radiusKm
+  near?: { latitude: number; longitude: number; radiusKm?: number };
+  // Only establishments open at this instant
+  openAt?: Date;
+};
+
+export type PageRequest = {
+  limit: number;
+  cursor?: string;
+};
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export class DuplicateReviewError extends Error {
+  constructor() {
+    super("You have already reviewed this establishment");
+    this.name = "DuplicateReviewError";
+  }
+}
+
+// The username, email or Firebase account already belongs to a user
+export class DuplicateUserError extends Error {
+  constructor() {
+    super("A user with this username, email or Firebase account already exists");
+    this.name = "DuplicateUserError";
+  }
+}
+
+export class DuplicateSlugError extends Error {
+  constructor(slug: string) {
+    super(`The slug "${slug}" is already taken`);
+    this.name = "DuplicateSlugError";
+  }
+}
+
+// A category or tag that cannot be deleted because something still uses it
+export class TermInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TermInUseError";
+  }
+}
+
+export class InvalidParentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidParentError";
+  }
+}
+
+// A location that cannot be deleted or moved to another level because something still uses it
+export class LocationInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocationInUseError";
+  }
+}
+
+export class UnknownTagError extends Error {
+  constructor(slugs: string[]) {
+    super(`Unknown tag(s): ${slugs.join(", ")}`);
+    this.name = "UnknownTagError";
+  }
+}
+
+export class VersionConflictError extends Error {
+  constructor() {
+    super("The establishment has changed since this version");
+    this.name = "VersionConflictError";
+  }
+}
+
+export class RevertConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevertConflictError";
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Postgres SQLSTATEs for unique and foreign key constraint violations
+const UNIQUE_VIOLATION = "23505";
+const FOREIGN_KEY_VIOLATION = "23503";
+
+// Entries returned by an establishment's history, newest first
+const HISTORY_LIMIT = 200;
+
+// Columns the audit log leaves out: keys, timestamps, blob bookkeeping, and values derived
+// from other columns (location from the address) or from reviews (rating, reviewCount)
+const UNAUDITED_FIELDS: Record<AuditedEntity, string[]> = {
+  establishment: ["id", "location", "rating", "reviewCount", "createdAt", "deletedAt", "version"],
+  attachment: ["id", "establishmentId", "filePath", "storageKey", "uploadDate", "deletedAt"],
+};
+
+// The audited fields that differ between two versions of a record; a create has no before, a delete no after
+function diffFields(
+  entityType: AuditedEntity,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const fields = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+  
+  for (const field of fields) {
+    if (UNAUDITED_FIELDS[entityType].includes(field)) continue;
+    // Compare the values as jsonb will store them
+    const previous = toJsonValue(before?.[field]);
+    const next = toJsonValue(after?.[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+function toJsonValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+type CursorValue = [sortKey: string, id: number];
+
+// Cursors are opaque base64url-encoded JSON tuples of the last row's sort key and id
+function encodeCursor(value: CursorValue): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorValue {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(value) && typeof value[0] === "string" && Number.isInteger(value[1])) {
+      return [value[0], value[1]];
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+const SEARCH_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle (haversine) distance in km from a point to an establishment; null when it has no coordinates
+function distanceKmFrom(latitude: number, longitude: number): SQL {
+  return sql`(${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+    power(sin(radians(${establishments.latitude} - ${latitude}) / 2), 2)
+    + cos(radians(${latitude})) * cos(radians(${establishments.latitude}))
+    * power(sin(radians(${establishments.longitude} - ${longitude}) / 2), 2)
+  )))`;
+}
+
+// Categories and tags have identical columns, so either table can be handled as the categories one
+function taxonomyTable(kind: TaxonomyKind): typeof categories {
+  return (kind === "categories" ? categories : tags) as typeof categories;
+}
+
+// Ids of the rows matching root and of every row nested below them through parentId
+function subtreeIds(table: typeof categories | typeof locations, root: SQL): SQL {
+  return sql`with recursive tree as (
+    select ${table.id} as id from ${table} where ${root}
+    union all
+    select ${table.id} from ${table} join tree on ${table.parentId} = tree.id
+  ) select id from tree`;
+}
+
+// Ids of the term with this slug and of every term nested below it
+function termAndDescendantIds(kind: TaxonomyKind, slug: string): SQL {
+  const table = taxonomyTable(kind);
+  return subtreeIds(table, sql`${table.slug} = ${slug}`);
+}
+
+// Ids of a location and of every location above it
+function locationAndAncestorIds(id: number): SQL {
+  return sql`with recursive path as (
+    select ${locations.id} as id, ${locations.parentId} as parent_id from ${locations} where ${locations.id} = ${id}
+    union all
+    select ${locations.id}, ${locations.parentId} from ${locations} join path on ${locations.id} = path.parent_id
+  ) select id from path`;
+}
+
+// Whether an establishment is open at an instant, by its local time. Same rules as getOpeningStatus
+// in shared/hours.ts: a date's exceptions replace its weekly hours, and a shift that closes at or
+// before it opens runs past midnight into the next day.
+function openAtCondition(at: Date): SQL {
+  const local = sql`(${at.toISOString()}::timestamptz at time zone ${establishments.timezone})`;
+  const localDate = sql`${local}::date`;
+  const localTime = sql`${local}::time`;
+  const hasExceptions = (day: SQL) => sql`exists (
+    select 1 from ${hoursExceptions}
+    where ${hoursExceptions.establishmentId} = ${establishments.id} and ${hoursExceptions.date} = ${day}
+  )`;
+
+  return sql`(exists (
+    select 1 from ${openingHours}
+    where ${openingHours.establishmentId} = ${establishments.id} and (
+      (${openingHours.dayOfWeek} = extract(dow from ${local}) and not ${hasExceptions(localDate)}
+        and ${openingHours.opensAt} <= ${localTime}
+        and (${localTime} < ${openingHours.closesAt} or ${openingHours.closesAt} <= ${openingHours.opensAt}))
+      or (${openingHours.dayOfWeek} = extract(dow from ${local} - interval '1 day') and not ${hasExceptions(sql`${localDate} - 1`)}
+        and ${openingHours.closesAt} <= ${openingHours.opensAt} and ${localTime} < ${openingHours.closesAt})
+    )
+  ) or exists (
+    select 1 from ${hoursExceptions}
+    where ${hoursExceptions.establishmentId} = ${establishments.id} and (
+      (${hoursExceptions.date} = ${localDate} and ${hoursExceptions.opensAt} <= ${localTime}
+        and (${localTime} < ${hoursExceptions.closesAt} or ${hoursExceptions.closesAt} <= ${hoursExceptions.opensAt}))
+      or (${hoursExceptions.date} = ${localDate} - 1
+        and ${hoursExceptions.closesAt} <= ${hoursExceptions.opensAt} and ${localTime} < ${hoursExceptions.closesAt})
+    )
+  ))`;
+}
+
+// Ranks name matches above category and location, then description
+function establishmentRankVector(): SQL {
+  return sql`(setweight(to_tsvector('english', ${establishments.name}), 'A') || setweight(to_tsvector('english', ${establishments.category} || ' ' || ${establishments.location}), 'B') || setweight(to_tsvector('english', coalesce(${establishments.description}, '')), 'C'))`;
+}
+
+// Every word of q must match, each as a prefix so results keep up while the user is still typing.
+// tsquery operators and quotes are treated as separators so input can't form query syntax.
+function toSearchQuery(q: string): SQL | undefined {
+  const words = q.match(/[^\s!&|:*()<>'"\\]+/g);
+  if (!words) return undefined;
+  return sql`to_tsquery('english', ${words.map((word) => `${word}:*`).join(" & ")})`;
+}
+
+function toSchedule(timezone: string, hours: OpeningHours[], exceptions: HoursException[]): EstablishmentSchedule {
+  return {
+    timezone,
+    hours: hours.map(({ dayOfWeek, opensAt, closesAt }) => ({ dayOfWeek, opensAt, closesAt })),
+    exceptions: exceptions.map(({ date, opensAt, closesAt, label }) => ({ date, opensAt, closesAt, label })),
+  };
+}
+
+// Sort key and direction for each sort option; nullable columns are coalesced so keyset comparisons hold
+function getEstablishmentSort(sortBy: string): { key: SQL; direction: "asc" | "desc" } {
+  switch (sortBy) {
+    case "Newest first":
+    case "createdAt":
+      return { key: sql`coalesce(${establishments.createdAt}, '-infinity'::timestamp)`, direction: "desc" };
+    case "Highest rated":
+      return { key: sql`coalesce(${establishments.rating}, -1)`, direction: "desc" };
+    case "Name A-Z":
+      return { key: sql`${establishments.name}`, direction: "asc" };
+    case "Name Z-A":
+      return { key: sql`${establishments.name}`, direction: "desc" };
+    default:
+      return { key: sql`${establishments.id}`, direction: "asc" };
+  }
+}
 
 // Storage Interface
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
   // User methods
+  getUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByFirebaseUid(firebaseUid: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  linkFirebaseUid(id: number, firebaseUid: string): Promise<User | undefined>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
 
   // Establishment methods
-  getEstablishments(filters?: {
-    category?: string;
-    location?: string;
-    rating?: string;
-  }, sortBy?: string): Promise<Establishment[]>;
+  getEstablishments(
+    filters?: EstablishmentFilters,
+    sortBy?: string,
+    page?: PageRequest
+  ): Promise<Paginated<EstablishmentListItem>>;
+  // Reads leave out establishments and attachments in the trash unless they say otherwise
   getEstablishment(id: number): Promise<Establishment | undefined>;
-  createEstablishment(establishment: InsertEstablishment): Promise<Establishment>;
-  updateEstablishment(id: number, data: Partial<Establishment>): Promise<boolean>;
-  deleteEstablishment(id: number): Promise<boolean>;
+  // Writes take the id of the user making them, or null for system jobs, and record it in the audit log
+  createEstablishment(establishment: InsertEstablishment, tags: string[], actorId: number | null): Promise<Establishment>;
+  // Creates all of them or, when one fails, none. Those without a location are filed under their
+  // city and district, which are added to the location tree when it has no such nodes.
+  createEstablishments(
+    rows: { establishment: InsertEstablishment; tags: string[] }[],
+    actorId: number | null
+  ): Promise<Establishment[]>;
+  // Tags are replaced when given. With an expected version, a newer establishment throws VersionConflictError.
+  updateEstablishment(
+    id: number,
+    data: Partial<Establishment>,
+    tags: string[] | undefined,
+    actorId: number | null,
+    expectedVersion?: number
+  ): Promise<Establishment | undefined>;
+  // Deleting moves an establishment and its files to the trash; purging removes them for good
+  deleteEstablishment(id: number, actorId: number | null, expectedVersion?: number): Promise<boolean>;
+  restoreEstablishment(id: number, actorId: number | null): Promise<boolean>;
+  purgeEstablishment(id: number, actorId: number | null): Promise<Attachment[] | undefined>;
+  getEstablishmentTags(establishmentId: number): Promise<string[]>;
+  // Establishments with any of these names, ignoring case
+  getEstablishmentsByName(names: string[]): Promise<Establishment[]>;
+  getDistricts(): Promise<string[]>;
+  getSchedule(establishmentId: number): Promise<EstablishmentSchedule | undefined>;
+  // The time zone is an audited field of the establishment, so changing it bumps the version. With an
+  // expected version, a newer establishment throws VersionConflictError.
+  setSchedule(
+    establishmentId: number,
+    schedule: ScheduleInput,
+    actorId: number | null,
+    expectedVersion?: number
+  ): Promise<{ establishment: Establishment; schedule: EstablishmentSchedule } | undefined>;
+
+  // Taxonomy methods, for categories and tags alike
+  getTerms(kind: TaxonomyKind): Promise<TaxonomyTerm[]>;
+  getTerm(kind: TaxonomyKind, id: number): Promise<TaxonomyTerm | undefined>;
+  getTermBySlug(kind: TaxonomyKind, slug: string): Promise<TaxonomyTerm | undefined>;
+  createTerm(kind: TaxonomyKind, term: InsertCategory): Promise<TaxonomyTerm>;
+  // A new slug, or deleting a tag, changes the establishments using the term: each gets a new
+  // version and an entry in its history
+  updateTerm(kind: TaxonomyKind, id: number, data: Partial<InsertCategory>, actorId: number | null): Promise<TaxonomyTerm | undefined>;
+  deleteTerm(kind: TaxonomyKind, id: number, actorId: number | null): Promise<boolean>;
+
+  // Location tree methods
+  getLocations(): Promise<Location[]>;
+  getLocation(id: number): Promise<Location | undefined>;
+  getLocationPath(id: number): Promise<Location[]>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  // Establishments filed under the location or below it get the city and district it now implies
+  updateLocation(id: number, data: Partial<InsertLocation>, actorId: number | null): Promise<Location | undefined>;
+  deleteLocation(id: number): Promise<boolean>;
+
+  // Trash methods; without an owner, everyone's trash
+  getTrash(ownerId?: number): Promise<Trash>;
+  getTrashedEstablishment(id: number): Promise<Establishment | undefined>;
+  getTrashedAttachment(id: number): Promise<Attachment | undefined>;
 
   // Attachment methods
+  getAllAttachments(): Promise<Attachment[]>;
   getAttachments(establishmentId: number): Promise<Attachment[]>;
-  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
-  deleteAttachment(id: number): Promise<boolean>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentByStorageKey(storageKey: string): Promise<Attachment | undefined>;
+  createAttachment(attachment: InsertAttachment, actorId: number | null): Promise<Attachment>;
+  createAttachmentWithBlob(attachment: InsertAttachment, storeBlob: () => Promise<void>, actorId: number | null): Promise<Attachment>;
+  deleteAttachment(id: number, actorId: number | null): Promise<boolean>;
+  restoreAttachment(id: number, actorId: number | null): Promise<boolean>;
+  purgeAttachment(id: number, deleteBlob: (attachment: Attachment) => Promise<void>, actorId: number | null): Promise<boolean>;
+  setAttachmentStorageKey(id: number, storageKey: string, filePath: string): Promise<boolean>;
+
+  // Review methods; writes also refresh the establishment's rating and reviewCount
+  getReviews(establishmentId: number): Promise<ReviewWithAuthor[]>;
+  getReview(id: number): Promise<Review | undefined>;
+  createReview(review: InsertReview): Promise<Review>;
+  updateReview(id: number, data: Partial<ReviewInput>): Promise<Review | undefined>;
+  deleteReview(id: number): Promise<boolean>;
+
+  // Audit log methods; an establishment's history includes its attachments
+  getHistory(establishmentId: number): Promise<AuditEntryWithActor[]>;
+  getAuditEntry(id: number): Promise<AuditEntry | undefined>;
+  // Put back the values an update replaced, as a new update that points at the reverted entry
+  revertAuditEntry(entry: AuditEntry, actorId: number | null): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   // User methods
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id));
     return result[0];
@@ -43,135 +417,1166 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email));
+    return result[0];
+  }
+
+  async getUserByFirebaseUid(firebaseUid: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.firebaseUid, firebaseUid));
+    return result[0];
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
+    try {
+      const result = await db.insert(users).values(insertUser).returning();
+      return result[0];
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateUserError();
+      }
+      throw error;
+    }
+  }
+
+  async linkFirebaseUid(id: number, firebaseUid: string): Promise<User | undefined> {
+    try {
+      const result = await db.update(users)
+        .set({ firebaseUid })
+        .where(eq(users.id, id))
+        .returning();
+      return result[0];
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateUserError();
+      }
+      throw error;
+    }
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
     return result[0];
   }
 
   // Establishment methods
   async getEstablishments(
-    filters?: {
-      category?: string;
-      location?: string;
-      rating?: string;
-    },
-    sortBy: string = "createdAt"
-  ): Promise<Establishment[]> {
+    filters?: EstablishmentFilters,
+    sortBy: string = "createdAt",
+    page: PageRequest = { limit: DEFAULT_PAGE_SIZE }
+  ): Promise<Paginated<EstablishmentListItem>> {
     // Build our SQL conditions
-    const conditions: SQL[] = [];
+    const conditions: SQL[] = [isNull(establishments.deletedAt)];
+    const searchVector = establishmentSearchVector(establishments);
+    const searchQuery = filters?.q ? toSearchQuery(filters.q) : undefined;
+    const near = filters?.near;
+    const distance = near ? distanceKmFrom(near.latitude, near.longitude) : undefined;
     
     if (filters) {
-      if (filters.category && filters.category !== "All categories") {
-        conditions.push(eq(establishments.category, filters.category));
+      if (filters.q) {
+        // A query with no searchable words matches nothing
+        conditions.push(searchQuery ? sql`${searchVector} @@ ${searchQuery}` : sql`false`);
+      }
+      
+      if (filters.category) {
+        conditions.push(sql`${establishments.category} in (
+          select ${categories.slug} from ${categories} where ${categories.id} in (${termAndDescendantIds("categories", filters.category)})
+        )`);
+      }
+      
+      if (filters.locationId !== undefined) {
+        conditions.push(sql`${establishments.locationId} in (${subtreeIds(locations, sql`${locations.id} = ${filters.locationId}`)})`);
+      }
+      
+      if (filters.tag) {
+        conditions.push(sql`exists (
+          select 1 from ${establishmentTags}
+          where ${establishmentTags.establishmentId} = ${establishments.id}
+            and ${establishmentTags.tagId} in (${termAndDescendantIds("tags", filters.tag)})
+        )`);
+      }
+      
+      if (filters.district) {
+        conditions.push(eq(establishments.district, filters.district));
       }
       
-      if (filters.location && filters.location !== "All locations") {
-        conditions.push(eq(establishments.location, filters.location));
+      if (filters.minRating !== undefined) {
+        conditions.push(gte(establishments.rating, filters.minRating));
       }
       
-      if (filters.rating && filters.rating !== "All ratings") {
-        if (filters.rating === "5 stars") {
-          conditions.push(eq(establishments.rating, "5"));
-        } else if (filters.rating === "4+ stars") {
-          conditions.push(gte(establishments.rating, "4"));
-        } else if (filters.rating === "3+ stars") {
-          conditions.push(gte(establishments.rating, "3"));
+      if (filters.maxRating !== undefined) {
+        conditions.push(lte(establishments.rating, filters.maxRating));
+      }
+      
+      if (near?.radiusKm !== undefined && distance) {
+        // 1 degree of latitude is ~111.2 km everywhere, so this band can use the latitude index
+        const latitudeDelta = near.radiusKm / 111.2;
+        conditions.push(
+          sql`${establishments.latitude} between ${near.latitude - latitudeDelta} and ${near.latitude + latitudeDelta}`,
+          sql`${distance} <= ${near.radiusKm}`
+        );
+      }
+      
+      if (filters.openAt) {
+        conditions.push(openAtCondition(filters.openAt));
+      }
+    }
+    
+    const sort = searchQuery && sortBy === "Relevance"
+      ? { key: sql`ts_rank(${establishmentRankVector()}, ${searchQuery})`, direction: "desc" as const }
+      : distance && sortBy === "Distance"
+        // Establishments without coordinates go last
+        ? { key: sql`coalesce(${distance}, 'infinity'::float8)`, direction: "asc" as const }
+        : getEstablishmentSort(sortBy);
+    const whereCondition = and(...conditions);
+    
+    // Keyset pagination: continue strictly after the (sort key, id) of the previous page's last row
+    const pageConditions = [...conditions];
+    if (page.cursor) {
+      const [sortKey, id] = decodeCursor(page.cursor);
+      pageConditions.push(sort.direction === "desc"
+        ? sql`(${sort.key}, ${establishments.id}) < (${sortKey}, ${id})`
+        : sql`(${sort.key}, ${establishments.id}) > (${sortKey}, ${id})`);
+    }
+    
+    const order = sort.direction === "desc"
+      ? [desc(sort.key), desc(establishments.id)]
+      : [asc(sort.key), asc(establishments.id)];
+    
+    // Fetch one extra row to learn whether another page follows
+    const rows = await db.select({
+      establishment: establishments,
+      sortKey: sql<string>`(${sort.key})::text`,
+      nameHighlight: searchQuery
+        ? sql<string | null>`ts_headline('english', ${establishments.name}, ${searchQuery}, ${SEARCH_HEADLINE_OPTIONS})`
+        : sql<string | null>`null`,
+      descriptionHighlight: searchQuery
+        ? sql<string | null>`ts_headline('english', ${establishments.description}, ${searchQuery}, ${SEARCH_HEADLINE_OPTIONS})`
+        : sql<string | null>`null`,
+      distanceKm: distance
+        ? sql<number | null>`${distance}`.mapWith(Number)
+        : sql<number | null>`null`,
+    })
+      .from(establishments)
+      .where(and(...pageConditions))
+      .orderBy(...order)
+      .limit(page.limit + 1);
+    
+    const [{ total }] = await db.select({ total: count() })
+      .from(establishments)
+      .where(whereCondition);
+    
+    const hasMore = rows.length > page.limit;
+    const pageRows = rows.slice(0, page.limit);
+    const last = pageRows[pageRows.length - 1];
+    const schedules = await this.getSchedulesAroundToday(pageRows.map((row) => row.establishment));
+    const tagSlugs = await this.getTagsOf(pageRows.map((row) => row.establishment.id));
+    
+    return {
+      items: pageRows.map((row) => {
+        const item: EstablishmentListItem = {
+          ...row.establishment,
+          schedule: schedules.get(row.establishment.id),
+          tags: tagSlugs.get(row.establishment.id) ?? []
+        };
+        if (searchQuery) {
+          item.highlights = { name: row.nameHighlight ?? row.establishment.name, description: row.descriptionHighlight };
         }
+        if (distance) {
+          item.distanceKm = row.distanceKm;
+        }
+        return item;
+      }),
+      nextCursor: hasMore && last ? encodeCursor([last.sortKey, last.establishment.id]) : null,
+      total,
+    };
+  }
+
+  async getEstablishment(id: number): Promise<Establishment | undefined> {
+    const result = await db.select()
+      .from(establishments)
+      .where(and(eq(establishments.id, id), isNull(establishments.deletedAt)));
+    return result[0];
+  }
+
+  async createEstablishment(establishment: InsertEstablishment, tags: string[], actorId: number | null): Promise<Establishment> {
+    return db.transaction((tx) => this.insertEstablishment(tx, establishment, tags, actorId));
+  }
+
+  async createEstablishments(
+    rows: { establishment: InsertEstablishment; tags: string[] }[],
+    actorId: number | null
+  ): Promise<Establishment[]> {
+    return db.transaction(async (tx) => {
+      const created: Establishment[] = [];
+      for (const row of rows) {
+        const { establishment } = row;
+        const locationId = establishment.locationId ?? (establishment.city
+          ? await this.findOrCreatePlace(tx, establishment.city, establishment.district ?? null)
+          : null);
+        created.push(await this.insertEstablishment(tx, { ...establishment, locationId }, row.tags, actorId));
+      }
+      return created;
+    });
+  }
+
+  // The location node of a city, or of a district in it, matched without case; missing nodes are added
+  private async findOrCreatePlace(tx: Transaction, city: string, district: string | null): Promise<number> {
+    const findOrCreate = async (name: string, kind: Location["kind"], parentId: number | null) => {
+      const [existing] = await tx.select({ id: locations.id })
+        .from(locations)
+        .where(and(
+          sql`lower(${locations.name}) = lower(${name})`,
+          eq(locations.kind, kind),
+          parentId === null ? isNull(locations.parentId) : eq(locations.parentId, parentId)
+        ))
+        .orderBy(asc(locations.id))
+        .limit(1);
+      if (existing) return existing.id;
+      
+      const [created] = await tx.insert(locations).values({ name, kind, parentId }).returning({ id: locations.id });
+      return created.id;
+    };
+    
+    const cityId = await findOrCreate(city.trim(), "city", null);
+    return district?.trim() ? findOrCreate(district.trim(), "district", cityId) : cityId;
+  }
+
+  private async insertEstablishment(
+    tx: Transaction,
+    establishment: InsertEstablishment,
+    tags: string[],
+    actorId: number | null
+  ): Promise<Establishment> {
+    const [created] = await tx.insert(establishments)
+      .values({ ...establishment, location: formatAddress(establishment) })
+      .returning();
+    const tagChange = await this.replaceTags(tx, created.id, tags);
+    const createdTags = tagChange && { tags: { before: null, after: tagChange.after } };
+    
+    await this.audit(tx, {
+      entityType: "establishment",
+      entityId: created.id,
+      establishmentId: created.id,
+      action: "create",
+      changes: { ...diffFields("establishment", null, created), ...createdTags },
+      userId: actorId,
+    });
+    return created;
+  }
+
+  async updateEstablishment(
+    id: number,
+    data: Partial<Establishment>,
+    tags: string[] | undefined,
+    actorId: number | null,
+    expectedVersion?: number
+  ): Promise<Establishment | undefined> {
+    return db.transaction(async (tx) => {
+      const result = await this.applyEstablishmentChanges(tx, id, data, tags, expectedVersion);
+      if (!result) return undefined;
+      
+      await this.audit(tx, { entityType: "establishment", entityId: id, establishmentId: id, action: "update", changes: result.changes, userId: actorId });
+      return result.establishment;
+    });
+  }
+
+  // Move to the trash with the files still attached; restoring brings back the same files
+  async deleteEstablishment(id: number, actorId: number | null, expectedVersion?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select()
+        .from(establishments)
+        .where(and(eq(establishments.id, id), isNull(establishments.deletedAt)))
+        .for("update");
+      if (!current) return false;
+      if (expectedVersion !== undefined && current.version !== expectedVersion) {
+        throw new VersionConflictError();
+      }
+      
+      const currentTags = await this.tagsIn(tx, id);
+      const deletedAt = new Date();
+      
+      const trashedAttachments = await tx.update(attachments)
+        .set({ deletedAt })
+        .where(and(eq(attachments.establishmentId, id), isNull(attachments.deletedAt)))
+        .returning();
+      await tx.update(establishments).set({ deletedAt }).where(eq(establishments.id, id));
+      
+      for (const attachment of trashedAttachments) {
+        await this.audit(tx, {
+          entityType: "attachment",
+          entityId: attachment.id,
+          establishmentId: id,
+          action: "delete",
+          changes: diffFields("attachment", attachment, null),
+          userId: actorId,
+        });
       }
+      await this.audit(tx, {
+        entityType: "establishment",
+        entityId: id,
+        establishmentId: id,
+        action: "delete",
+        changes: {
+          ...diffFields("establishment", current, null),
+          ...(currentTags.length > 0 && { tags: { before: currentTags, after: null } }),
+        },
+        userId: actorId,
+      });
+      return true;
+    });
+  }
+
+  async restoreEstablishment(id: number, actorId: number | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [trashed] = await tx.select()
+        .from(establishments)
+        .where(and(eq(establishments.id, id), isNotNull(establishments.deletedAt)))
+        .for("update");
+      if (!trashed) return false;
+      
+      // Files deleted on their own before the establishment stay in the trash
+      const restoredAttachments = await tx.update(attachments)
+        .set({ deletedAt: null })
+        .where(and(eq(attachments.establishmentId, id), eq(attachments.deletedAt, trashed.deletedAt!)))
+        .returning({ id: attachments.id });
+      await tx.update(establishments).set({ deletedAt: null }).where(eq(establishments.id, id));
+      
+      for (const attachment of restoredAttachments) {
+        await this.audit(tx, { entityType: "attachment", entityId: attachment.id, establishmentId: id, action: "restore", changes: {}, userId: actorId });
+      }
+      await this.audit(tx, { entityType: "establishment", entityId: id, establishmentId: id, action: "restore", changes: {}, userId: actorId });
+      return true;
+    });
+  }
+
+  // Returns the purged attachments, whose blobs the caller removes; undefined unless the establishment is in the trash
+  async purgeEstablishment(id: number, actorId: number | null): Promise<Attachment[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [trashed] = await tx.select({ id: establishments.id })
+        .from(establishments)
+        .where(and(eq(establishments.id, id), isNotNull(establishments.deletedAt)))
+        .for("update");
+      if (!trashed) return undefined;
+      
+      // First delete all attachments, reviews, opening hours and tag assignments
+      const purgedAttachments = await tx.delete(attachments).where(eq(attachments.establishmentId, id)).returning();
+      await tx.delete(reviews).where(eq(reviews.establishmentId, id));
+      await tx.delete(openingHours).where(eq(openingHours.establishmentId, id));
+      await tx.delete(hoursExceptions).where(eq(hoursExceptions.establishmentId, id));
+      await tx.delete(establishmentTags).where(eq(establishmentTags.establishmentId, id));
+      
+      // Then delete the establishment
+      await tx.delete(establishments).where(eq(establishments.id, id));
+      
+      await this.audit(tx, { entityType: "establishment", entityId: id, establishmentId: id, action: "purge", changes: {}, userId: actorId });
+      return purgedAttachments;
+    });
+  }
+
+  async getEstablishmentTags(establishmentId: number): Promise<string[]> {
+    return this.tagsIn(db, establishmentId);
+  }
+
+  async getEstablishmentsByName(names: string[]): Promise<Establishment[]> {
+    if (names.length === 0) return [];
+    
+    return db.select()
+      .from(establishments)
+      .where(and(
+        isNull(establishments.deletedAt),
+        inArray(sql`lower(${establishments.name})`, names.map((name) => name.toLowerCase()))
+      ));
+  }
+
+  // Lock the row, apply the changes and return the establishment with the audited fields that
+  // actually changed; undefined when there is no such establishment
+  private async applyEstablishmentChanges(
+    tx: Transaction,
+    id: number,
+    data: Partial<Establishment>,
+    tags: string[] | undefined,
+    expectedVersion?: number
+  ): Promise<{ establishment: Establishment; changes: Record<string, FieldChange> } | undefined> {
+    const [current] = await tx.select()
+      .from(establishments)
+      .where(and(eq(establishments.id, id), isNull(establishments.deletedAt)))
+      .for("update");
+    if (!current) return undefined;
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError();
     }
     
-    // Execute the query with the appropriate conditions and sorting
-    if (conditions.length === 0) {
-      // No filters, just apply sorting
-      if (sortBy === "Newest first" || sortBy === "createdAt") {
-        return db.select().from(establishments).orderBy(desc(establishments.createdAt));
-      } else if (sortBy === "Highest rated") {
-        return db.select().from(establishments).orderBy(desc(establishments.rating));
-      } else if (sortBy === "Name A-Z") {
-        return db.select().from(establishments).orderBy(establishments.name);
-      } else if (sortBy === "Name Z-A") {
-        return db.select().from(establishments).orderBy(desc(establishments.name));
-      } else {
-        return db.select().from(establishments);
-      }
-    } else {
-      // Apply filters and sorting
-      const whereCondition = conditions.length === 1 ? conditions[0] : and(...conditions);
-      
-      if (sortBy === "Newest first" || sortBy === "createdAt") {
-        return db.select().from(establishments)
-          .where(whereCondition)
-          .orderBy(desc(establishments.createdAt));
-      } else if (sortBy === "Highest rated") {
-        return db.select().from(establishments)
-          .where(whereCondition)
-          .orderBy(desc(establishments.rating));
-      } else if (sortBy === "Name A-Z") {
-        return db.select().from(establishments)
-          .where(whereCondition)
-          .orderBy(establishments.name);
-      } else if (sortBy === "Name Z-A") {
-        return db.select().from(establishments)
-          .where(whereCondition)
-          .orderBy(desc(establishments.name));
-      } else {
-        return db.select().from(establishments)
-          .where(whereCondition);
+    const { location, version, ...changes } = data;
+    let updated = current;
+    
+    if (Object.keys(changes).length > 0) {
+      // Rewrite the one-line location from the stored address with the changes applied
+      const values = ADDRESS_FIELDS.some((field) => field in changes)
+        ? { ...changes, location: formatAddress({ ...current, ...changes }) }
+        : changes;
+      [updated] = await tx.update(establishments)
+        .set(values)
+        .where(eq(establishments.id, id))
+        .returning();
+    }
+    
+    const tagChange = tags === undefined ? undefined : await this.replaceTags(tx, id, tags);
+    const fieldChanges = { ...diffFields("establishment", current, updated), ...(tagChange && { tags: tagChange }) };
+    
+    // Saving unchanged values keeps the version, so it cannot conflict with anyone
+    if (Object.keys(fieldChanges).length > 0) {
+      [updated] = await tx.update(establishments)
+        .set({ version: sql`${establishments.version} + 1` })
+        .where(eq(establishments.id, id))
+        .returning();
+    }
+    return { establishment: updated, changes: fieldChanges };
+  }
+
+  // Replace an establishment's tags with the given slugs; returns the change, if any
+  private async replaceTags(tx: Transaction, establishmentId: number, slugs: string[]): Promise<FieldChange | undefined> {
+    const wanted = Array.from(new Set(slugs));
+    const found = wanted.length > 0
+      ? await tx.select({ id: tags.id, slug: tags.slug }).from(tags).where(inArray(tags.slug, wanted))
+      : [];
+    
+    if (found.length < wanted.length) {
+      throw new UnknownTagError(wanted.filter((slug) => !found.some((tag) => tag.slug === slug)));
+    }
+    
+    const before = await this.tagsIn(tx, establishmentId);
+    await tx.delete(establishmentTags).where(eq(establishmentTags.establishmentId, establishmentId));
+    if (found.length > 0) {
+      await tx.insert(establishmentTags).values(found.map((tag) => ({ establishmentId, tagId: tag.id })));
+    }
+    
+    const after = await this.tagsIn(tx, establishmentId);
+    return JSON.stringify(before) === JSON.stringify(after) ? undefined : { before, after };
+  }
+
+  private async tagsIn(executor: Transaction | typeof db, establishmentId: number): Promise<string[]> {
+    const result = await executor.select({ slug: tags.slug })
+      .from(establishmentTags)
+      .innerJoin(tags, eq(tags.id, establishmentTags.tagId))
+      .where(eq(establishmentTags.establishmentId, establishmentId))
+      .orderBy(asc(tags.name));
+    return result.map((row) => row.slug);
+  }
+
+  // Districts in use, for filtering the list
+  async getDistricts(): Promise<string[]> {
+    const result = await db.selectDistinct({ district: establishments.district })
+      .from(establishments)
+      .where(and(isNotNull(establishments.district), isNull(establishments.deletedAt)))
+      .orderBy(asc(establishments.district));
+    return result.map((row) => row.district!);
+  }
+
+  async getSchedule(establishmentId: number): Promise<EstablishmentSchedule | undefined> {
+    const establishment = await this.getEstablishment(establishmentId);
+    if (!establishment) return undefined;
+
+    const hours = await db.select().from(openingHours)
+      .where(eq(openingHours.establishmentId, establishmentId))
+      .orderBy(asc(openingHours.dayOfWeek), asc(openingHours.opensAt));
+    const exceptions = await db.select().from(hoursExceptions)
+      .where(eq(hoursExceptions.establishmentId, establishmentId))
+      .orderBy(asc(hoursExceptions.date), asc(hoursExceptions.opensAt));
+
+    return toSchedule(establishment.timezone, hours, exceptions);
+  }
+
+  async setSchedule(
+    establishmentId: number,
+    schedule: ScheduleInput,
+    actorId: number | null,
+    expectedVersion?: number
+  ): Promise<{ establishment: Establishment; schedule: EstablishmentSchedule } | undefined> {
+    return await db.transaction(async (tx) => {
+      const result = await this.applyEstablishmentChanges(tx, establishmentId, { timezone: schedule.timezone }, undefined, expectedVersion);
+      if (!result) return undefined;
+
+      await this.audit(tx, {
+        entityType: "establishment",
+        entityId: establishmentId,
+        establishmentId,
+        action: "update",
+        changes: result.changes,
+        userId: actorId,
+      });
+      await tx.delete(openingHours).where(eq(openingHours.establishmentId, establishmentId));
+      await tx.delete(hoursExceptions).where(eq(hoursExceptions.establishmentId, establishmentId));
+
+      const hours = schedule.hours.length > 0
+        ? await tx.insert(openingHours)
+          .values(schedule.hours.map((shift) => ({ ...shift, establishmentId })))
+          .returning()
+        : [];
+      const exceptions = schedule.exceptions.length > 0
+        ? await tx.insert(hoursExceptions)
+          .values(schedule.exceptions.map((exception) => ({ ...exception, label: exception.label || null, establishmentId })))
+          .returning()
+        : [];
+
+      return { establishment: result.establishment, schedule: toSchedule(schedule.timezone, hours, exceptions) };
+    });
+  }
+
+  // Weekly hours and the exceptions near today for each establishment, keyed by id. Two days
+  // either side covers every time zone's today plus the yesterday whose late shifts run into it.
+  private async getSchedulesAroundToday(list: Establishment[]): Promise<Map<number, EstablishmentSchedule>> {
+    const schedules = new Map<number, EstablishmentSchedule>();
+    if (list.length === 0) return schedules;
+
+    const ids = list.map((establishment) => establishment.id);
+    const hours = await db.select().from(openingHours)
+      .where(inArray(openingHours.establishmentId, ids))
+      .orderBy(asc(openingHours.dayOfWeek), asc(openingHours.opensAt));
+    const exceptions = await db.select().from(hoursExceptions)
+      .where(and(
+        inArray(hoursExceptions.establishmentId, ids),
+        sql`${hoursExceptions.date} between current_date - 2 and current_date + 2`
+      ))
+      .orderBy(asc(hoursExceptions.date), asc(hoursExceptions.opensAt));
+
+    for (const establishment of list) {
+      schedules.set(establishment.id, toSchedule(
+        establishment.timezone,
+        hours.filter((shift) => shift.establishmentId === establishment.id),
+        exceptions.filter((exception) => exception.establishmentId === establishment.id)
+      ));
+    }
+    return schedules;
+  }
+
+  // Tag slugs of each of the establishments, by tag name
+  private async getTagsOf(ids: number[]): Promise<Map<number, string[]>> {
+    const tagSlugs = new Map<number, string[]>();
+    if (ids.length === 0) return tagSlugs;
+
+    const rows = await db.select({ establishmentId: establishmentTags.establishmentId, slug: tags.slug })
+      .from(establishmentTags)
+      .innerJoin(tags, eq(tags.id, establishmentTags.tagId))
+      .where(inArray(establishmentTags.establishmentId, ids))
+      .orderBy(asc(tags.name));
+
+    for (const row of rows) {
+      tagSlugs.set(row.establishmentId, [...(tagSlugs.get(row.establishmentId) ?? []), row.slug]);
+    }
+    return tagSlugs;
+  }
+
+  // Taxonomy methods
+  async getTerms(kind: TaxonomyKind): Promise<TaxonomyTerm[]> {
+    const table = taxonomyTable(kind);
+    return await db.select().from(table).orderBy(asc(table.name));
+  }
+
+  async getTerm(kind: TaxonomyKind, id: number): Promise<TaxonomyTerm | undefined> {
+    const table = taxonomyTable(kind);
+    const result = await db.select().from(table).where(eq(table.id, id));
+    return result[0];
+  }
+
+  async getTermBySlug(kind: TaxonomyKind, slug: string): Promise<TaxonomyTerm | undefined> {
+    const table = taxonomyTable(kind);
+    const result = await db.select().from(table).where(eq(table.slug, slug));
+    return result[0];
+  }
+
+  async createTerm(kind: TaxonomyKind, term: InsertCategory): Promise<TaxonomyTerm> {
+    const table = taxonomyTable(kind);
+    await this.checkParent(kind, undefined, term.parentId);
+    
+    try {
+      const result = await db.insert(table).values(term).returning();
+      return result[0];
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateSlugError(term.slug);
       }
+      throw error;
     }
   }
 
-  async getEstablishment(id: number): Promise<Establishment | undefined> {
-    const result = await db.select().from(establishments).where(eq(establishments.id, id));
+  async updateTerm(
+    kind: TaxonomyKind,
+    id: number,
+    data: Partial<InsertCategory>,
+    actorId: number | null
+  ): Promise<TaxonomyTerm | undefined> {
+    const table = taxonomyTable(kind);
+    await this.checkParent(kind, id, data.parentId);
+    
+    try {
+      return await db.transaction(async (tx) => {
+        const [current] = await tx.select().from(table).where(eq(table.id, id)).for("update");
+        if (!current) return undefined;
+        
+        // Establishments refer to categories and tags by slug (categories on update cascade)
+        const affected = data.slug !== undefined && data.slug !== current.slug
+          ? await this.lockEstablishmentsUsing(tx, kind, current)
+          : [];
+        const [updated] = await tx.update(table)
+          .set(data)
+          .where(eq(table.id, id))
+          .returning();
+        await this.recordTaxonomyChange(tx, affected, actorId);
+        return updated;
+      });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION && data.slug) {
+        throw new DuplicateSlugError(data.slug);
+      }
+      throw error;
+    }
+  }
+
+  async deleteTerm(kind: TaxonomyKind, id: number, actorId: number | null): Promise<boolean> {
+    const table = taxonomyTable(kind);
+    const term = await this.getTerm(kind, id);
+    if (!term) return false;
+    
+    const [{ children }] = await db.select({ children: count() }).from(table).where(eq(table.parentId, id));
+    if (children > 0) {
+      throw new TermInUseError(`Move or delete the ${kind} nested under "${term.name}" first`);
+    }
+    
+    if (kind === "categories") {
+      const [{ used }] = await db.select({ used: count() })
+        .from(establishments)
+        .where(eq(establishments.category, term.slug));
+      // Establishments in the trash still hold on to their category
+      if (used > 0) {
+        throw new TermInUseError(`"${term.name}" is the category of ${used} establishment(s), counting any in the trash`);
+      }
+    }
+    
+    return await db.transaction(async (tx) => {
+      // Tag assignments go with the tag (on delete cascade)
+      const affected = kind === "tags" ? await this.lockEstablishmentsUsing(tx, kind, term) : [];
+      const result = await tx.delete(table).where(eq(table.id, id)).returning({ id: table.id });
+      await this.recordTaxonomyChange(tx, affected, actorId);
+      return result.length > 0;
+    });
+  }
+
+  // The establishments whose category or tags include a term, trashed ones included, locked and
+  // with their tags as they were before the term changed
+  private async lockEstablishmentsUsing(
+    tx: Transaction,
+    kind: TaxonomyKind,
+    term: TaxonomyTerm
+  ): Promise<{ establishment: Establishment; tags: string[] }[]> {
+    const using = kind === "categories"
+      ? eq(establishments.category, term.slug)
+      : inArray(establishments.id, tx.select({ id: establishmentTags.establishmentId })
+        .from(establishmentTags)
+        .where(eq(establishmentTags.tagId, term.id)));
+    const found = await tx.select().from(establishments).where(using).for("update");
+    
+    const affected: { establishment: Establishment; tags: string[] }[] = [];
+    for (const establishment of found) {
+      affected.push({ establishment, tags: await this.tagsIn(tx, establishment.id) });
+    }
+    return affected;
+  }
+
+  // Bump the version of each establishment a taxonomy change touched, so edits started before it
+  // conflict, and record what it changed in the establishment's history
+  private async recordTaxonomyChange(
+    tx: Transaction,
+    affected: { establishment: Establishment; tags: string[] }[],
+    actorId: number | null
+  ): Promise<void> {
+    for (const before of affected) {
+      const id = before.establishment.id;
+      const [after] = await tx.update(establishments)
+        .set({ version: sql`${establishments.version} + 1` })
+        .where(eq(establishments.id, id))
+        .returning();
+      const tagsAfter = await this.tagsIn(tx, id);
+      const tagChange = JSON.stringify(before.tags) === JSON.stringify(tagsAfter) ? undefined : { before: before.tags, after: tagsAfter };
+      
+      await this.audit(tx, {
+        entityType: "establishment",
+        entityId: id,
+        establishmentId: id,
+        action: "update",
+        changes: { ...diffFields("establishment", before.establishment, after), ...(tagChange && { tags: tagChange }) },
+        userId: actorId,
+      });
+    }
+  }
+
+  // A parent must exist and must not be the term itself or nested below it
+  private async checkParent(kind: TaxonomyKind, id: number | undefined, parentId: number | null | undefined): Promise<void> {
+    let ancestorId = parentId ?? null;
+    while (ancestorId !== null) {
+      if (ancestorId === id) {
+        throw new InvalidParentError("A term cannot be nested under itself or its own children");
+      }
+      const ancestor = await this.getTerm(kind, ancestorId);
+      if (!ancestor) {
+        throw new InvalidParentError(`Parent ${ancestorId} does not exist`);
+      }
+      ancestorId = ancestor.parentId;
+    }
+  }
+
+  // Location tree methods
+  async getLocations(): Promise<Location[]> {
+    return await db.select().from(locations).orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
+    const result = await db.select().from(locations).where(eq(locations.id, id));
     return result[0];
   }
 
-  async createEstablishment(establishment: InsertEstablishment): Promise<Establishment> {
-    const result = await db.insert(establishments).values(establishment).returning();
+  // The location and its ancestors, root first; empty when there is no such location
+  async getLocationPath(id: number): Promise<Location[]> {
+    const result = await db.select().from(locations).where(sql`${locations.id} in (${locationAndAncestorIds(id)})`);
+    const path: Location[] = [];
+    let node = result.find((location) => location.id === id);
+    while (node) {
+      path.unshift(node);
+      node = result.find((location) => location.id === node!.parentId);
+    }
+    return path;
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    await this.checkLocationParent(location.kind, location.parentId ?? null);
+    const result = await db.insert(locations).values(location).returning();
     return result[0];
   }
 
-  async updateEstablishment(id: number, data: Partial<Establishment>): Promise<boolean> {
-    const result = await db.update(establishments)
-      .set(data)
-      .where(eq(establishments.id, id))
-      .returning({ id: establishments.id });
+  async updateLocation(id: number, data: Partial<InsertLocation>, actorId: number | null): Promise<Location | undefined> {
+    const current = await this.getLocation(id);
+    if (!current) return undefined;
     
-    return result.length > 0;
+    const kind = data.kind ?? current.kind;
+    if (kind !== current.kind) {
+      const [{ children }] = await db.select({ children: count() }).from(locations).where(eq(locations.parentId, id));
+      if (children > 0) {
+        throw new LocationInUseError(`Move or delete the locations in "${current.name}" before making it a ${kind}`);
+      }
+    }
+    await this.checkLocationParent(kind, data.parentId === undefined ? current.parentId : data.parentId);
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(locations)
+        .set(data)
+        .where(eq(locations.id, id))
+        .returning();
+      await this.refileEstablishments(tx, id, actorId);
+      return updated;
+    });
+  }
+
+  // Rewrite the city and district of establishments filed under a location or below it, trashed
+  // ones included, from the location tree as it now stands
+  private async refileEstablishments(tx: Transaction, locationId: number, actorId: number | null): Promise<void> {
+    const tree = new Map((await tx.select().from(locations)).map((location) => [location.id, location]));
+    const filed = await tx.select()
+      .from(establishments)
+      .where(sql`${establishments.locationId} in (${subtreeIds(locations, sql`${locations.id} = ${locationId}`)})`)
+      .for("update");
+    
+    for (const current of filed) {
+      // Root first, as getLocationPath returns it; cities are always at the root
+      const path: Location[] = [];
+      for (let node = tree.get(current.locationId!); node; node = node.parentId === null ? undefined : tree.get(node.parentId)) {
+        path.unshift(node);
+      }
+      const city = path[0]?.name ?? current.city;
+      const district = path.find((location) => location.kind === "district")?.name ?? null;
+      if (city === current.city && district === current.district) continue;
+      
+      const [updated] = await tx.update(establishments)
+        .set({
+          city,
+          district,
+          location: formatAddress({ ...current, city, district }),
+          version: sql`${establishments.version} + 1`,
+        })
+        .where(eq(establishments.id, current.id))
+        .returning();
+      await this.audit(tx, {
+        entityType: "establishment",
+        entityId: current.id,
+        establishmentId: current.id,
+        action: "update",
+        changes: diffFields("establishment", current, updated),
+        userId: actorId,
+      });
+    }
   }
 
-  async deleteEstablishment(id: number): Promise<boolean> {
-    // First delete all attachments
-    await db.delete(attachments).where(eq(attachments.establishmentId, id));
+  async deleteLocation(id: number): Promise<boolean> {
+    const location = await this.getLocation(id);
+    if (!location) return false;
+    
+    const [{ children }] = await db.select({ children: count() }).from(locations).where(eq(locations.parentId, id));
+    if (children > 0) {
+      throw new LocationInUseError(`Move or delete the locations in "${location.name}" first`);
+    }
     
-    // Then delete the establishment
-    const result = await db.delete(establishments)
-      .where(eq(establishments.id, id))
-      .returning({ id: establishments.id });
+    const [{ used }] = await db.select({ used: count() }).from(establishments).where(eq(establishments.locationId, id));
+    if (used > 0) {
+      throw new LocationInUseError(`"${location.name}" is the location of ${used} establishment(s), counting any in the trash`);
+    }
     
+    const result = await db.delete(locations).where(eq(locations.id, id)).returning({ id: locations.id });
     return result.length > 0;
   }
 
+  // Cities are roots, and every other level sits directly under the level before it
+  private async checkLocationParent(kind: Location["kind"], parentId: number | null): Promise<void> {
+    const parentKind = LOCATION_KINDS[LOCATION_KINDS.indexOf(kind) - 1];
+    if (!parentKind) {
+      if (parentId !== null) {
+        throw new InvalidParentError(`A ${kind} cannot be placed in another location`);
+      }
+      return;
+    }
+    
+    const parent = parentId === null ? undefined : await this.getLocation(parentId);
+    if (parent?.kind !== parentKind) {
+      throw new InvalidParentError(`A ${kind} must be placed in a ${parentKind}`);
+    }
+  }
+
+  // Trash methods
+  async getTrash(ownerId?: number): Promise<Trash> {
+    const trashedEstablishments = await db.select()
+      .from(establishments)
+      .where(and(
+        isNotNull(establishments.deletedAt),
+        ownerId === undefined ? undefined : eq(establishments.userId, ownerId)
+      ))
+      .orderBy(desc(establishments.deletedAt), desc(establishments.id));
+    
+    // Files of a trashed establishment are restored and purged along with it
+    const rows = await db.select({ attachment: attachments })
+      .from(attachments)
+      .innerJoin(establishments, eq(establishments.id, attachments.establishmentId))
+      .where(and(
+        isNotNull(attachments.deletedAt),
+        isNull(establishments.deletedAt),
+        ownerId === undefined ? undefined : eq(attachments.userId, ownerId)
+      ))
+      .orderBy(desc(attachments.deletedAt), desc(attachments.id));
+    
+    return { establishments: trashedEstablishments, attachments: rows.map((row) => row.attachment) };
+  }
+
+  async getTrashedEstablishment(id: number): Promise<Establishment | undefined> {
+    const result = await db.select()
+      .from(establishments)
+      .where(and(eq(establishments.id, id), isNotNull(establishments.deletedAt)));
+    return result[0];
+  }
+
+  async getTrashedAttachment(id: number): Promise<Attachment | undefined> {
+    const result = await db.select()
+      .from(attachments)
+      .where(and(eq(attachments.id, id), isNotNull(attachments.deletedAt)));
+    return result[0];
+  }
+
   // Attachment methods
+  // Every row, including those in the trash, whose blobs are kept until they are purged
+  async getAllAttachments(): Promise<Attachment[]> {
+    return db.select().from(attachments).orderBy(attachments.id);
+  }
+
   async getAttachments(establishmentId: number): Promise<Attachment[]> {
     const result = await db.select()
       .from(attachments)
-      .where(eq(attachments.establishmentId, establishmentId));
+      .where(and(eq(attachments.establishmentId, establishmentId), isNull(attachments.deletedAt)));
     return result;
   }
 
-  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
-    const result = await db.insert(attachments).values(attachment).returning();
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const result = await db.select()
+      .from(attachments)
+      .where(and(eq(attachments.id, id), isNull(attachments.deletedAt)));
     return result[0];
   }
 
-  async deleteAttachment(id: number): Promise<boolean> {
-    const result = await db.delete(attachments)
+  async getAttachmentByStorageKey(storageKey: string): Promise<Attachment | undefined> {
+    const result = await db.select()
+      .from(attachments)
+      .where(and(eq(attachments.storageKey, storageKey), isNull(attachments.deletedAt)));
+    return result[0];
+  }
+
+  async createAttachment(attachment: InsertAttachment, actorId: number | null): Promise<Attachment> {
+    return this.createAttachmentWithBlob(attachment, async () => {}, actorId);
+  }
+
+  // Insert the row and store the blob in one transaction; a failed blob write rolls the row back
+  async createAttachmentWithBlob(
+    attachment: InsertAttachment,
+    storeBlob: () => Promise<void>,
+    actorId: number | null
+  ): Promise<Attachment> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(attachments).values(attachment).returning();
+      await this.audit(tx, {
+        entityType: "attachment",
+        entityId: created.id,
+        establishmentId: created.establishmentId,
+        action: "create",
+        changes: diffFields("attachment", null, created),
+        userId: actorId,
+      });
+      await storeBlob();
+      return created;
+    });
+  }
+
+  // Move to the trash; the blob stays until the attachment is purged
+  async deleteAttachment(id: number, actorId: number | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const result = await tx.update(attachments)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(attachments.id, id), isNull(attachments.deletedAt)))
+        .returning();
+      
+      if (result.length === 0) {
+        return false;
+      }
+      
+      await this.audit(tx, {
+        entityType: "attachment",
+        entityId: id,
+        establishmentId: result[0].establishmentId,
+        action: "delete",
+        changes: diffFields("attachment", result[0], null),
+        userId: actorId,
+      });
+      return true;
+    });
+  }
+
+  async restoreAttachment(id: number, actorId: number | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const result = await tx.update(attachments)
+        .set({ deletedAt: null })
+        .where(and(eq(attachments.id, id), isNotNull(attachments.deletedAt)))
+        .returning();
+      
+      if (result.length === 0) {
+        return false;
+      }
+      
+      await this.audit(tx, {
+        entityType: "attachment",
+        entityId: id,
+        establishmentId: result[0].establishmentId,
+        action: "restore",
+        changes: {},
+        userId: actorId,
+      });
+      return true;
+    });
+  }
+
+  // Delete the row and its blob in one transaction; a failed blob delete keeps the row
+  async purgeAttachment(
+    id: number,
+    deleteBlob: (attachment: Attachment) => Promise<void>,
+    actorId: number | null
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const result = await tx.delete(attachments)
+        .where(eq(attachments.id, id))
+        .returning();
+      
+      if (result.length === 0) {
+        return false;
+      }
+      
+      await this.audit(tx, {
+        entityType: "attachment",
+        entityId: id,
+        establishmentId: result[0].establishmentId,
+        action: "purge",
+        changes: {},
+        userId: actorId,
+      });
+      await deleteBlob(result[0]);
+      return true;
+    });
+  }
+
+  async setAttachmentStorageKey(id: number, storageKey: string, filePath: string): Promise<boolean> {
+    const result = await db.update(attachments)
+      .set({ storageKey, filePath })
       .where(eq(attachments.id, id))
       .returning({ id: attachments.id });
     
     return result.length > 0;
   }
+
+  // Review methods
+  async getReviews(establishmentId: number): Promise<ReviewWithAuthor[]> {
+    const rows = await db.select({
+      review: reviews,
+      author: { displayName: users.displayName, photoURL: users.photoURL },
+    })
+      .from(reviews)
+      .innerJoin(users, eq(users.id, reviews.userId))
+      .where(eq(reviews.establishmentId, establishmentId))
+      .orderBy(desc(reviews.createdAt), desc(reviews.id));
+    
+    return rows.map((row) => ({ ...row.review, author: row.author }));
+  }
+
+  async getReview(id: number): Promise<Review | undefined> {
+    const result = await db.select().from(reviews).where(eq(reviews.id, id));
+    return result[0];
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockEstablishment(tx, review.establishmentId);
+        const result = await tx.insert(reviews).values(review).returning();
+        await this.refreshRating(tx, review.establishmentId);
+        return result[0];
+      });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new DuplicateReviewError();
+      }
+      throw error;
+    }
+  }
+
+  async updateReview(id: number, data: Partial<ReviewInput>): Promise<Review | undefined> {
+    const existing = await this.getReview(id);
+    if (!existing) return undefined;
+    
+    return db.transaction(async (tx) => {
+      await this.lockEstablishment(tx, existing.establishmentId);
+      const result = await tx.update(reviews)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(reviews.id, id))
+        .returning();
+      await this.refreshRating(tx, existing.establishmentId);
+      return result[0];
+    });
+  }
+
+  async deleteReview(id: number): Promise<boolean> {
+    const existing = await this.getReview(id);
+    if (!existing) return false;
+    
+    return db.transaction(async (tx) => {
+      await this.lockEstablishment(tx, existing.establishmentId);
+      const result = await tx.delete(reviews)
+        .where(eq(reviews.id, id))
+        .returning({ id: reviews.id });
+      await this.refreshRating(tx, existing.establishmentId);
+      return result.length > 0;
+    });
+  }
+
+  // Serialize review writes per establishment so concurrent ones can't compute a stale aggregate
+  private async lockEstablishment(tx: Transaction, establishmentId: number): Promise<void> {
+    await tx.select({ id: establishments.id })
+      .from(establishments)
+      .where(eq(establishments.id, establishmentId))
+      .for("update");
+  }
+
+  private async refreshRating(tx: Transaction, establishmentId: number): Promise<void> {
+    const [summary] = await tx.select({
+      average: sql<string | null>`round(avg(${reviews.rating}), 1)`,
+      total: count(),
+    })
+      .from(reviews)
+      .where(eq(reviews.establishmentId, establishmentId));
+    
+    await tx.update(establishments)
+      .set({
+        rating: summary.average === null ? null : Number(summary.average),
+        reviewCount: summary.total,
+      })
+      .where(eq(establishments.id, establishmentId));
+  }
+
+  // Audit log methods
+  async getHistory(establishmentId: number): Promise<AuditEntryWithActor[]> {
+    // Actor columns are selected flat: drizzle drops a left-joined object whose first column is null
+    const rows = await db.select({
+      entry: auditLog,
+      displayName: users.displayName,
+      username: users.username,
+    })
+      .from(auditLog)
+      .leftJoin(users, eq(users.id, auditLog.userId))
+      .where(eq(auditLog.establishmentId, establishmentId))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(HISTORY_LIMIT);
+    
+    return rows.map(({ entry, displayName, username }) => ({
+      ...entry,
+      actor: username === null ? null : { displayName, username },
+    }));
+  }
+
+  async getAuditEntry(id: number): Promise<AuditEntry | undefined> {
+    const result = await db.select().from(auditLog).where(eq(auditLog.id, id));
+    return result[0];
+  }
+
+  async revertAuditEntry(entry: AuditEntry, actorId: number | null): Promise<boolean> {
+    const { tags: tagChange, ...fieldChanges } = entry.changes;
+    const data = Object.fromEntries(
+      Object.entries(fieldChanges).map(([field, change]) => [field, change.before])
+    ) as Partial<Establishment>;
+    
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await this.applyEstablishmentChanges(tx, entry.entityId, data, tagChange?.before as string[] | undefined);
+        if (!result) return false;
+        
+        await this.audit(tx, {
+          entityType: "establishment",
+          entityId: entry.entityId,
+          establishmentId: entry.establishmentId,
+          action: "update",
+          changes: result.changes,
+          userId: actorId,
+          revertOf: entry.id,
+        });
+        return true;
+      });
+    } catch (error: any) {
+      if (error instanceof UnknownTagError) {
+        throw new RevertConflictError("Some of the earlier tags have since been deleted");
+      }
+      if (error?.code === FOREIGN_KEY_VIOLATION) {
+        throw new RevertConflictError("A category or location the earlier values refer to no longer exists");
+      }
+      throw error;
+    }
+  }
+
+  // Updates that changed nothing audited, such as saving the form unchanged, are left out
+  private async audit(tx: Transaction, entry: InsertAuditEntry): Promise<void> {
+    if (entry.action === "update" && Object.keys(entry.changes).length === 0) return;
+    await tx.insert(auditLog).values(entry);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,119 @@
+import multer from "multer";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Request, Response, NextFunction } from "express";
+
+// Uploads are spooled here before they are handed to the blob store
+const UPLOAD_TEMP_DIR = path.join(os.tmpdir(), "commercial-catalog-uploads");
+
+export const MAX_UPLOAD_SIZE = Number(process.env.UPLOAD_MAX_FILE_SIZE) || 25 * 1024 * 1024; // 25MB
+
+// Accepted file extensions and the MIME types browsers report for them
+export const ALLOWED_UPLOAD_TYPES: Record<string, string[]> = {
+  ".pdf": ["application/pdf"],
+  ".doc": ["application/msword"],
+  ".docx": ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  ".xls": ["application/vnd.ms-excel"],
+  ".xlsx": ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  ".png": ["image/png"],
+  ".jpg": ["image/jpeg"],
+  ".jpeg": ["image/jpeg"],
+  ".gif": ["image/gif"],
+  ".webp": ["image/webp"],
+  ".zip": ["application/zip", "application/x-zip-compressed"],
+};
+
+// Spreadsheets of establishments to import, and the MIME types browsers report for them
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+export const ALLOWED_IMPORT_TYPES: Record<string, string[]> = {
+  ".csv": ["text/csv", "application/csv", "text/plain", "application/vnd.ms-excel"],
+  ".xlsx": ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+};
+
+export class UploadValidationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "UploadValidationError";
+    this.status = status;
+  }
+}
+
+// Format a byte count the same way the client always has ("1.25 MB")
+export function formatFileSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+const diskStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    fs.promises.mkdir(UPLOAD_TEMP_DIR, { recursive: true })
+      .then(() => cb(null, UPLOAD_TEMP_DIR))
+      .catch((err) => cb(err, UPLOAD_TEMP_DIR));
+  },
+});
+
+// Accept a single "file" field whose extension and MIME type are in allowedTypes
+function singleFile(storage: multer.StorageEngine, maxFileSize: number, allowedTypes: Record<string, string[]>) {
+  return multer({
+    storage,
+    limits: { fileSize: maxFileSize, files: 1 },
+    fileFilter: (_req, file, cb) => {
+      const ext = path.extname(file.originalname).toLowerCase();
+      const types = allowedTypes[ext];
+
+      if (!types || !types.includes(file.mimetype)) {
+        return cb(new UploadValidationError(`File type ${ext || file.mimetype} is not allowed`, 415));
+      }
+      cb(null, true);
+    },
+  }).single("file");
+}
+
+const uploader = singleFile(diskStorage, MAX_UPLOAD_SIZE, ALLOWED_UPLOAD_TYPES);
+
+// Spreadsheets are small and read at once, so they stay in memory
+const importUploader = singleFile(multer.memoryStorage(), MAX_IMPORT_FILE_SIZE, ALLOWED_IMPORT_TYPES);
+
+// Parse a single multipart "file" field and reply with 4xx for invalid uploads
+export function acceptUpload(req: Request, res: Response, next: NextFunction) {
+  handleUpload(uploader, MAX_UPLOAD_SIZE, req, res, next);
+}
+
+// The same for an import spreadsheet, which ends up in req.file.buffer
+export function acceptImportFile(req: Request, res: Response, next: NextFunction) {
+  handleUpload(importUploader, MAX_IMPORT_FILE_SIZE, req, res, next);
+}
+
+function handleUpload(
+  upload: ReturnType<typeof singleFile>,
+  maxFileSize: number,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  upload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ error: `File exceeds the ${formatFileSize(maxFileSize)} limit` });
+      }
+      return res.status(400).json({ error: err.message });
+    }
+    if (err instanceof UploadValidationError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    if (err) {
+      return next(err);
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "No file was uploaded in the \"file\" field" });
+    }
+    next();
+  });
+}
+
+// Remove a spooled upload, ignoring files that are already gone
+export async function removeUpload(filePath: string): Promise<void> {
+  await fs.promises.rm(filePath, { force: true });
+}
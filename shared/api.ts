@@ -0,0 +1,356 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  users,
+  categories,
+  locations,
+  establishments,
+  attachments,
+  reviews,
+  auditLog,
+  insertEstablishmentSchema,
+  updateEstablishmentSchema,
+  insertCategorySchema,
+  insertLocationSchema,
+  establishmentTagsSchema,
+  userValidationSchema,
+  loginSchema,
+  updateUserRoleSchema,
+  reviewInputSchema,
+  scheduleInputSchema,
+  importMappingSchema,
+  AUDITED_ENTITIES,
+  AUDIT_ACTIONS,
+  LOCATION_KINDS,
+  EXPORT_FORMATS,
+  MIN_RATING,
+  MAX_RATING,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type FieldChange,
+  type TaxonomyKind
+} from "./schema";
+
+// Lets schemas carry the names and formats the OpenAPI document shows
+extendZodWithOpenApi(z);
+
+// -------------- Response schemas --------------
+// Timestamps are Dates on the server and ISO strings once sent, as with the table types
+
+// As zod reports them, with more fields depending on the kind of issue
+const validationIssueSchema = z.object({
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+}).openapi("ValidationIssue");
+
+// Every error response; some add fields, such as the current establishment on a version conflict
+export const apiErrorSchema = z.object({
+  // A message, or the fields that failed validation
+  error: z.union([z.string(), z.array(validationIssueSchema)]),
+}).passthrough().openapi("Error");
+
+const successSchema = z.object({ success: z.boolean() }).openapi("Success");
+
+const permissionsSchema = z.object({
+  canEdit: z.boolean(),
+  canDelete: z.boolean(),
+}).openapi("Permissions");
+
+const withPermissions = <T extends z.ZodRawShape>(schema: z.ZodObject<T>) => schema.extend({ permissions: permissionsSchema });
+
+const userSchema = createSelectSchema(users).omit({ password: true }).openapi("User");
+
+const termSchema = createSelectSchema(categories).openapi("Term");
+
+const locationSchema = createSelectSchema(locations, {
+  kind: z.enum(LOCATION_KINDS),
+}).openapi("Location");
+
+const establishmentSchema = createSelectSchema(establishments, {
+  rating: z.number().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+}).openapi("Establishment");
+
+const scheduleSchema = z.object({
+  timezone: z.string(),
+  hours: z.array(z.object({
+    dayOfWeek: z.number().int(),
+    opensAt: z.string(),
+    closesAt: z.string(),
+  })),
+  exceptions: z.array(z.object({
+    date: z.string(),
+    opensAt: z.string().nullable(),
+    closesAt: z.string().nullable(),
+    label: z.string().nullable(),
+  })),
+}).openapi("Schedule");
+
+const establishmentListItemSchema = withPermissions(establishmentSchema).extend({
+  tags: z.array(z.string()).optional(),
+  highlights: z.object({ name: z.string(), description: z.string().nullable() }).optional(),
+  distanceKm: z.number().nullable().optional(),
+  schedule: scheduleSchema.optional(),
+}).openapi("EstablishmentListItem");
+
+const establishmentDetailsSchema = withPermissions(establishmentSchema).extend({
+  tags: z.array(z.string()),
+  locationPath: z.array(locationSchema),
+}).openapi("EstablishmentDetails");
+
+const attachmentSchema = withPermissions(createSelectSchema(attachments)).openapi("Attachment");
+
+const reviewSchema = withPermissions(createSelectSchema(reviews)).openapi("Review");
+
+const reviewWithAuthorSchema = reviewSchema.extend({
+  author: z.object({ displayName: z.string().nullable(), photoURL: z.string().nullable() }),
+}).openapi("ReviewWithAuthor");
+
+const historyEntrySchema = createSelectSchema(auditLog, {
+  entityType: z.enum(AUDITED_ENTITIES),
+  action: z.enum(AUDIT_ACTIONS),
+  // zod makes unknown fields optional; both are always there, if only as null
+  changes: z.record(z.string(), z.object({ before: z.unknown(), after: z.unknown() }) as z.ZodType<FieldChange>),
+}).extend({
+  actor: z.object({ displayName: z.string().nullable(), username: z.string() }).nullable(),
+}).openapi("HistoryEntry");
+
+const importReportSchema = z.object({
+  dryRun: z.boolean(),
+  columns: z.array(z.string()),
+  mapping: importMappingSchema,
+  rows: z.array(z.object({
+    row: z.number().int(),
+    name: z.string(),
+    status: z.enum(["valid", "invalid", "duplicate"]),
+    errors: z.array(validationIssueSchema),
+    duplicateOf: z.union([z.object({ establishmentId: z.number().int() }), z.object({ row: z.number().int() })]).optional(),
+    newLocations: z.array(z.string()).optional().describe("Locations importing the row adds to the tree, city first"),
+    establishmentId: z.number().int().optional(),
+  })),
+  counts: z.object({ valid: z.number().int(), invalid: z.number().int(), duplicate: z.number().int() }),
+  created: z.number().int(),
+}).openapi("ImportReport");
+
+// A file sent in a form or streamed back, rather than JSON
+const fileSchema = z.custom<Blob>((value) => value instanceof Blob).openapi({ type: "string", format: "binary" });
+
+// -------------- Request schemas --------------
+
+const idParams = <K extends string>(...names: K[]) =>
+  z.object(Object.fromEntries(names.map((name) => [name, z.number().int()])) as Record<K, z.ZodNumber>);
+
+const ifMatchHeaders = z.object({
+  "if-match": z.string().describe("The ETag the establishment was loaded with, or * to skip the check"),
+});
+
+// The filters and order of the establishment list, shared by the list and its export
+const listQuerySchema = z.object({
+  q: z.string().optional().describe("Full-text search; results are ranked by relevance unless sortBy says otherwise"),
+  category: z.string().optional().describe("Category slug"),
+  tag: z.string().optional().describe("Tag slug"),
+  district: z.string().optional(),
+  location: z.number().int().optional().describe("Location ID; includes the locations below it"),
+  minRating: z.number().min(MIN_RATING).max(MAX_RATING).optional(),
+  maxRating: z.number().min(MIN_RATING).max(MAX_RATING).optional(),
+  lat: z.number().min(-90).max(90).optional().describe("Measure distances from this point; needs lng"),
+  lng: z.number().min(-180).max(180).optional(),
+  radius: z.number().min(0).optional().describe("Only those within this many km of lat/lng"),
+  openNow: z.enum(["true", "false"]).optional(),
+  openAt: z.string().datetime({ offset: true }).optional().describe("Only those open at this moment; not with openNow"),
+  sortBy: z.enum(["Newest first", "createdAt", "Highest rated", "Name A-Z", "Name Z-A", "Relevance", "Distance"]).optional(),
+});
+
+// -------------- Routes --------------
+
+export type ApiRoute = {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  // In Express form, e.g. /api/establishments/:id
+  path: string;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  headers?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  // Bodies are JSON unless they carry a file
+  contentType?: "multipart/form-data";
+  // The status and body of a successful response
+  status?: 200 | 201;
+  response: z.ZodTypeAny;
+};
+
+const route = <R extends ApiRoute>(definition: R) => definition;
+
+// Categories and tags share their routes
+const termRoutes = (kind: TaxonomyKind) => ({
+  list: route({ method: "get", path: `/api/${kind}`, response: z.array(termSchema) }),
+  create: route({ method: "post", path: `/api/${kind}`, body: insertCategorySchema, status: 201, response: termSchema }),
+  update: route({ method: "patch", path: `/api/${kind}/:id`, params: idParams("id"), body: insertCategorySchema.partial(), response: termSchema }),
+  delete: route({ method: "delete", path: `/api/${kind}/:id`, params: idParams("id"), response: successSchema }),
+});
+
+/**
+ * Every route of the REST API with the shape of what goes in and comes out. The server registers
+ * its handlers against these routes and the client calls them through a client built from them,
+ * so changing a shape here fails to compile wherever it is produced or read.
+ */
+export const contract = {
+  users: {
+    register: route({ method: "post", path: "/api/users/register", body: userValidationSchema, status: 201, response: userSchema }),
+    login: route({ method: "post", path: "/api/users/login", body: loginSchema, response: userSchema }),
+    logout: route({ method: "post", path: "/api/users/logout", response: successSchema }),
+    me: route({ method: "get", path: "/api/users/me", response: userSchema }),
+    list: route({ method: "get", path: "/api/users", response: z.array(userSchema) }),
+    updateRole: route({ method: "patch", path: "/api/users/:id/role", params: idParams("id"), body: updateUserRoleSchema, response: userSchema }),
+    get: route({ method: "get", path: "/api/users/:id", params: idParams("id"), response: userSchema }),
+  },
+  establishments: {
+    list: route({
+      method: "get",
+      path: "/api/establishments",
+      query: listQuerySchema.extend({
+        limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE).optional(),
+        cursor: z.string().optional().describe("nextCursor of the previous page"),
+      }),
+      response: z.object({
+        items: z.array(establishmentListItemSchema),
+        nextCursor: z.string().nullable(),
+        total: z.number().int(),
+      }),
+    }),
+    export: route({
+      method: "get",
+      path: "/api/establishments/export",
+      query: listQuerySchema.extend({ format: z.enum(EXPORT_FORMATS).default("csv").optional() }),
+      response: fileSchema,
+    }),
+    get: route({ method: "get", path: "/api/establishments/:id", params: idParams("id"), response: establishmentDetailsSchema }),
+    create: route({
+      method: "post",
+      path: "/api/establishments",
+      // The signed-in user owns what they create
+      body: insertEstablishmentSchema.omit({ userId: true }).extend({ tags: establishmentTagsSchema.optional() }),
+      status: 201,
+      response: withPermissions(establishmentSchema).extend({ tags: z.array(z.string()) }),
+    }),
+    import: route({
+      method: "post",
+      path: "/api/establishments/import",
+      contentType: "multipart/form-data",
+      body: z.object({
+        file: fileSchema.describe("A .csv or .xlsx sheet"),
+        dryRun: z.enum(["true", "false"]).optional().describe("Only check the rows unless this is false"),
+        mapping: z.string().optional().describe("JSON object from column header to field, or null to ignore the column"),
+        timezone: z.string().optional().describe("IANA time zone for rows that do not give one"),
+      }),
+      response: importReportSchema,
+    }),
+    update: route({
+      method: "patch",
+      path: "/api/establishments/:id",
+      params: idParams("id"),
+      headers: ifMatchHeaders,
+      body: updateEstablishmentSchema,
+      response: successSchema,
+    }),
+    delete: route({ method: "delete", path: "/api/establishments/:id", params: idParams("id"), headers: ifMatchHeaders, response: successSchema }),
+    getHours: route({ method: "get", path: "/api/establishments/:id/hours", params: idParams("id"), response: scheduleSchema }),
+    setHours: route({
+      method: "put",
+      path: "/api/establishments/:id/hours",
+      params: idParams("id"),
+      headers: ifMatchHeaders,
+      body: scheduleInputSchema,
+      response: scheduleSchema,
+    }),
+    history: route({ method: "get", path: "/api/establishments/:id/history", params: idParams("id"), response: z.array(historyEntrySchema) }),
+    revert: route({
+      method: "post",
+      path: "/api/establishments/:id/history/:entryId/revert",
+      params: idParams("id", "entryId"),
+      response: successSchema,
+    }),
+  },
+  categories: termRoutes("categories"),
+  tags: termRoutes("tags"),
+  locations: {
+    list: route({ method: "get", path: "/api/locations", response: z.array(locationSchema) }),
+    path: route({ method: "get", path: "/api/locations/:id/path", params: idParams("id"), response: z.array(locationSchema) }),
+    create: route({ method: "post", path: "/api/locations", body: insertLocationSchema, status: 201, response: locationSchema }),
+    update: route({ method: "patch", path: "/api/locations/:id", params: idParams("id"), body: insertLocationSchema.partial(), response: locationSchema }),
+    delete: route({ method: "delete", path: "/api/locations/:id", params: idParams("id"), response: successSchema }),
+    districts: route({ method: "get", path: "/api/districts", response: z.array(z.string()) }),
+  },
+  attachments: {
+    list: route({ method: "get", path: "/api/establishments/:id/attachments", params: idParams("id"), response: z.array(attachmentSchema) }),
+    upload: route({
+      method: "post",
+      path: "/api/establishments/:id/attachments",
+      params: idParams("id"),
+      contentType: "multipart/form-data",
+      body: z.object({ file: fileSchema }),
+      status: 201,
+      response: attachmentSchema,
+    }),
+    download: route({
+      method: "get",
+      path: "/api/files/:storageKey(*)",
+      params: z.object({ storageKey: z.string().describe("May contain slashes") }),
+      response: fileSchema,
+    }),
+    delete: route({ method: "delete", path: "/api/attachments/:id", params: idParams("id"), response: successSchema }),
+  },
+  trash: {
+    list: route({
+      method: "get",
+      path: "/api/trash",
+      response: z.object({
+        establishments: z.array(withPermissions(establishmentSchema)),
+        attachments: z.array(attachmentSchema),
+      }),
+    }),
+    restoreEstablishment: route({ method: "post", path: "/api/trash/establishments/:id/restore", params: idParams("id"), response: successSchema }),
+    purgeEstablishment: route({ method: "delete", path: "/api/trash/establishments/:id", params: idParams("id"), response: successSchema }),
+    restoreAttachment: route({ method: "post", path: "/api/trash/attachments/:id/restore", params: idParams("id"), response: successSchema }),
+    purgeAttachment: route({ method: "delete", path: "/api/trash/attachments/:id", params: idParams("id"), response: successSchema }),
+  },
+  reviews: {
+    list: route({ method: "get", path: "/api/establishments/:id/reviews", params: idParams("id"), response: z.array(reviewWithAuthorSchema) }),
+    create: route({
+      method: "post",
+      path: "/api/establishments/:id/reviews",
+      params: idParams("id"),
+      body: reviewInputSchema,
+      status: 201,
+      response: reviewSchema,
+    }),
+    update: route({ method: "patch", path: "/api/reviews/:id", params: idParams("id"), body: reviewInputSchema.partial(), response: reviewSchema }),
+    delete: route({ method: "delete", path: "/api/reviews/:id", params: idParams("id"), response: successSchema }),
+  },
+  docs: {
+    openapi: route({ method: "get", path: "/api/openapi.json", response: z.record(z.string(), z.unknown()) }),
+  },
+};
+
+export type ApiContract = typeof contract;
+
+// Every route of the contract, for checking that each is served and documented
+export const apiRoutes: ApiRoute[] = Object.values(contract).flatMap((group): ApiRoute[] => Object.values(group));
+
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+
+// The body of a successful response
+export type ApiResponse<R extends ApiRoute> = z.infer<R["response"]>;
+
+// Path params as Express parses them
+export type ApiPathParams<R extends ApiRoute> = R extends { params: infer P extends z.AnyZodObject }
+  ? { [K in keyof z.infer<P>]: string }
+  : {};
+
+// What a caller sends: the values for the path, and the query, headers and body the route takes
+export type ApiRequest<R extends ApiRoute> =
+  (R extends { params: infer P extends z.AnyZodObject } ? { params: { [K in keyof z.infer<P>]: string | number } } : {}) &
+  (R extends { query: infer Q extends z.AnyZodObject } ? { query?: z.input<Q> } : {}) &
+  (R extends { headers: infer H extends z.AnyZodObject } ? { headers: z.input<H> } : {}) &
+  (R extends { body: infer B extends z.ZodTypeAny } ? { body: z.input<B> } : {});
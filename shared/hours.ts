@@ -0,0 +1,113 @@
+import type { EstablishmentSchedule } from "./schema";
+
+// Indexed by day of week, 0 = Sunday
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+const SHORT_DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type Shift = {
+  opensAt: string;
+  closesAt: string;
+};
+
+export type OpeningStatus = {
+  isOpen: boolean;
+  // Today's shifts in the establishment's local time; empty when closed all day
+  today: Shift[];
+  // Set when today's hours come from an exception date, e.g. "Christmas Day"
+  exceptionLabel: string | null;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:MM" to minutes since midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// The local calendar date, weekday and minute of the day of an instant in a time zone
+function localTime(at: Date, timeZone: string): { date: string; dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    dayOfWeek: SHORT_DAY_NAMES.indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function previousDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+}
+
+// A date's exceptions replace its weekly hours; an exception without times closes the whole day
+function shiftsOn(schedule: EstablishmentSchedule, date: string, dayOfWeek: number): { shifts: Shift[]; exceptionLabel: string | null } {
+  const exceptions = schedule.exceptions.filter((exception) => exception.date === date);
+  const shifts: Shift[] = exceptions.length > 0
+    ? exceptions.flatMap(({ opensAt, closesAt }) => (opensAt && closesAt ? [{ opensAt, closesAt }] : []))
+    : schedule.hours
+      .filter((shift) => shift.dayOfWeek === dayOfWeek)
+      .map(({ opensAt, closesAt }) => ({ opensAt, closesAt }));
+
+  return {
+    shifts: shifts.sort((a, b) => a.opensAt.localeCompare(b.opensAt)),
+    exceptionLabel: exceptions.find((exception) => exception.label)?.label ?? null,
+  };
+}
+
+// Shifts that close at or before they open run past midnight into the next day
+function runsOvernight(shift: Shift): boolean {
+  return toMinutes(shift.closesAt) <= toMinutes(shift.opensAt);
+}
+
+/**
+ * Whether the establishment is open at an instant, and its hours for that local day.
+ * Mirrors the openAt filter of GET /api/establishments, which runs the same rules in SQL.
+ */
+export function getOpeningStatus(schedule: EstablishmentSchedule, at: Date = new Date()): OpeningStatus {
+  const now = localTime(at, schedule.timezone);
+  const today = shiftsOn(schedule, now.date, now.dayOfWeek);
+  const yesterday = shiftsOn(schedule, previousDate(now.date), (now.dayOfWeek + 6) % 7);
+
+  const openToday = today.shifts.some((shift) =>
+    toMinutes(shift.opensAt) <= now.minutes && (now.minutes < toMinutes(shift.closesAt) || runsOvernight(shift))
+  );
+  const openSinceYesterday = yesterday.shifts.some((shift) =>
+    runsOvernight(shift) && now.minutes < toMinutes(shift.closesAt)
+  );
+
+  return {
+    isOpen: openToday || openSinceYesterday,
+    today: today.shifts,
+    exceptionLabel: today.exceptionLabel,
+  };
+}
+
+export function isOpenAt(schedule: EstablishmentSchedule, at: Date = new Date()): boolean {
+  return getOpeningStatus(schedule, at).isOpen;
+}
+
+// e.g. "09:00–14:30, 18:00–23:00", or "Closed"
+export function formatShifts(shifts: Shift[]): string {
+  if (shifts.length === 0) return "Closed";
+  return shifts.map((shift) => `${shift.opensAt}–${shift.closesAt}`).join(", ");
+}
@@ -0,0 +1,91 @@
+import type { UserRole } from "./schema";
+
+// Every action the API authorizes
+export const PERMISSION_ACTIONS = [
+  "establishment:create",
+  "establishment:update",
+  "establishment:delete",
+  "attachment:create",
+  "attachment:update",
+  "attachment:delete",
+  "review:create",
+  "review:update",
+  "review:delete",
+  "taxonomy:manage",
+  "location:manage",
+  "user:list",
+  "user:update-role",
+] as const;
+
+export type PermissionAction = typeof PERMISSION_ACTIONS[number];
+
+// "any" applies to every record, "own" only to records the user created
+export type PermissionScope = "any" | "own" | "none";
+
+// Permission matrix: role -> action -> scope
+export const PERMISSIONS: Record<UserRole, Record<PermissionAction, PermissionScope>> = {
+  admin: {
+    "establishment:create": "any",
+    "establishment:update": "any",
+    "establishment:delete": "any",
+    "attachment:create": "any",
+    "attachment:update": "any",
+    "attachment:delete": "any",
+    "review:create": "any",
+    "review:update": "any",
+    "review:delete": "any",
+    "taxonomy:manage": "any",
+    "location:manage": "any",
+    "user:list": "any",
+    "user:update-role": "any",
+  },
+  editor: {
+    "establishment:create": "any",
+    "establishment:update": "own",
+    "establishment:delete": "own",
+    "attachment:create": "any",
+    "attachment:update": "own",
+    "attachment:delete": "own",
+    "review:create": "any",
+    "review:update": "own",
+    "review:delete": "own",
+    "taxonomy:manage": "none",
+    "location:manage": "none",
+    "user:list": "none",
+    "user:update-role": "none",
+  },
+  viewer: {
+    "establishment:create": "none",
+    "establishment:update": "none",
+    "establishment:delete": "none",
+    "attachment:create": "none",
+    "attachment:update": "none",
+    "attachment:delete": "none",
+    // Viewers cannot change the catalog but may review it
+    "review:create": "any",
+    "review:update": "own",
+    "review:delete": "own",
+    "taxonomy:manage": "none",
+    "location:manage": "none",
+    "user:list": "none",
+    "user:update-role": "none",
+  },
+};
+
+/**
+ * Check whether a role may perform an action.
+ * Without an owner the check answers "on at least some records", which is
+ * what route-level guards need before the record has been loaded.
+ */
+export function can(
+  user: { id: number; role: UserRole } | null | undefined,
+  action: PermissionAction,
+  ownerId?: number
+): boolean {
+  if (!user) return false;
+
+  const scope = PERMISSIONS[user.role]?.[action] ?? "none";
+  if (scope === "any") return true;
+  if (scope === "own") return ownerId === undefined || ownerId === user.id;
+  return false;
+}
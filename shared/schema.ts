@@ -1,31 +1,181 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, date, index, unique, primaryKey, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone } from "./hours";
+
+// User roles, from most to least privileged
+export const USER_ROLES = [
+  'admin',
+  'editor',
+  'viewer'
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Levels of the location tree, from the root down; each level nests in the one before it
+export const LOCATION_KINDS = [
+  'city',
+  'district',
+  'neighbourhood'
+] as const;
+
+export type LocationKind = typeof LOCATION_KINDS[number];
+
+// Records whose changes go to the audit log, and what can happen to them
+export const AUDITED_ENTITIES = ['establishment', 'attachment'] as const;
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+
+export type AuditedEntity = typeof AUDITED_ENTITIES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Colour given to categories and tags created without one
+export const DEFAULT_TERM_COLOR = "#6b7280";
+
+// Average ratings run from MIN_RATING to MAX_RATING; a single review gives MIN_REVIEW_RATING to MAX_RATING whole stars
+export const MIN_RATING = 0;
+export const MAX_RATING = 5;
+export const MIN_REVIEW_RATING = 1;
+
+// A numeric(precision, scale) column read and written as a JS number instead of a string
+const decimal = customType<{
+  data: number;
+  driverData: string;
+  config: { precision: number; scale: number };
+}>({
+  dataType(config) {
+    return config ? `numeric(${config.precision}, ${config.scale})` : "numeric";
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+  toDriver(value) {
+    return String(value);
+  },
+});
+
+// A time of day read and written as "HH:MM"; Postgres returns time values as "HH:MM:SS"
+const timeOfDay = customType<{ data: string; driverData: string }>({
+  dataType() {
+    return "time";
+  },
+  fromDriver(value) {
+    return value.slice(0, 5);
+  },
+});
 
 // User model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password"), // Null for accounts that only sign in through Firebase
   email: text("email").notNull().unique(),
+  firebaseUid: text("firebase_uid").unique(),
+  role: text("role", { enum: USER_ROLES }).notNull().default("editor"),
   displayName: text("display_name"),
   photoURL: text("photo_url"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Taxonomy models. Categories classify each establishment once; tags are applied freely.
+// Both nest through parentId, and slugs are the stable names used in URLs and filters.
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  color: text("color").notNull().default(DEFAULT_TERM_COLOR),
+  icon: text("icon"), // lucide icon name in kebab case, e.g. "utensils"
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  color: text("color").notNull().default(DEFAULT_TERM_COLOR),
+  icon: text("icon"),
+  parentId: integer("parent_id").references((): AnyPgColumn => tags.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Places establishments are filed under, e.g. Paris > 11th arrondissement > Oberkampf
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").$type<LocationKind>().notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => locations.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("locations_parent_id_idx").on(table.parentId),
+]);
+
 // Establishment model
 export const establishments = pgTable("establishments", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  category: text("category").notNull(),
-  location: text("location").notNull(),
+  // Renaming a category's slug carries over to its establishments
+  category: text("category").notNull().references(() => categories.slug, { onUpdate: "cascade" }),
+  location: text("location").notNull(), // One-line form of the address below, see formatAddress
+  street: text("street"),
+  district: text("district"),
+  city: text("city"),
+  postalCode: text("postal_code"),
+  country: text("country"), // ISO 3166-1 alpha-2 code when the geocoder recognises it
+  locationId: integer("location_id").references(() => locations.id), // Most specific node of the location tree
   description: text("description"),
-  rating: text("rating").default("5"),
+  rating: decimal("rating", { precision: 2, scale: 1 }), // Average of the reviews; null until the first review
+  reviewCount: integer("review_count").notNull().default(0),
   coverImage: text("cover_image"),
-  userId: integer("user_id").notNull().default(1), // Default to user ID 1 for testing
+  // WGS84 coordinates in degrees; both set or both null
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  timezone: text("timezone").notNull().default("UTC"), // IANA name; opening hours are in this zone's local time
+  userId: integer("user_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  deletedAt: timestamp("deleted_at"), // Set while in the trash; purging removes the row
+  version: integer("version").notNull().default(1), // Bumped by every change to the fields people edit, see versionETag
+}, (table) => [
+  // Must match the expression full-text search queries use, or the index is skipped
+  index("establishments_search_idx").using("gin", establishmentSearchVector(table)),
+  // Radius searches narrow to a latitude band before computing distances
+  index("establishments_latitude_idx").on(table.latitude),
+  index("establishments_location_id_idx").on(table.locationId),
+]);
+
+// Full-text document for an establishment. Kept unweighted: drizzle-kit cannot read back
+// expression indexes containing setweight(), so ranking weights are applied at query time.
+export function establishmentSearchVector(table: Record<"name" | "category" | "location" | "description", AnyPgColumn>) {
+  return sql`to_tsvector('english', ${table.name} || ' ' || ${table.category} || ' ' || ${table.location} || ' ' || coalesce(${table.description}, ''))`;
+}
+
+// Establishment versions go out as strong ETags, and updates must send the one they started from in If-Match
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Postal address parts, in the order they are written on one line
+export const ADDRESS_FIELDS = ["street", "district", "city", "postalCode", "country"] as const;
+
+export type AddressField = typeof ADDRESS_FIELDS[number];
+export type Address = Record<AddressField, string | null>;
+
+// e.g. "123 Main St, Downtown, 10001 New York, US"
+export function formatAddress(address: Partial<Address>): string {
+  const cityLine = [address.postalCode, address.city].filter(Boolean).join(" ");
+  return [address.street, address.district, cityLine, address.country].filter(Boolean).join(", ");
+}
+
+// Just the address parts of an establishment or request body, missing parts as null
+export function pickAddress(source: Partial<Address>): Address {
+  return {
+    street: source.street ?? null,
+    district: source.district ?? null,
+    city: source.city ?? null,
+    postalCode: source.postalCode ?? null,
+    country: source.country ?? null,
+  };
+}
 
 // Attachment files model
 export const attachments = pgTable("attachments", {
@@ -34,15 +184,85 @@ export const attachments = pgTable("attachments", {
   fileType: text("file_type").notNull(),
   fileSize: text("file_size").notNull(),
   filePath: text("file_path").notNull(),
+  storageKey: text("storage_key").unique(), // Blob store key; null for legacy client-side uploads
   establishmentId: integer("establishment_id").notNull(),
-  userId: integer("user_id").notNull().default(1), // Default to user ID 1 for testing
+  userId: integer("user_id").notNull(),
   uploadDate: timestamp("upload_date").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // Set while in the trash; the blob is kept until the row is purged
 });
 
+export const establishmentTags = pgTable("establishment_tags", {
+  establishmentId: integer("establishment_id").notNull().references(() => establishments.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.establishmentId, table.tagId] }),
+]);
+
+// Weekly opening hours: one row per shift, so a day can have several (e.g. lunch and dinner).
+// A shift whose closing time is not after its opening time runs past midnight.
+export const openingHours = pgTable("opening_hours", {
+  id: serial("id").primaryKey(),
+  establishmentId: integer("establishment_id").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, as in Postgres extract(dow)
+  opensAt: timeOfDay("opens_at").notNull(),
+  closesAt: timeOfDay("closes_at").notNull(),
+}, (table) => [
+  index("opening_hours_establishment_idx").on(table.establishmentId),
+]);
+
+// Dates whose hours differ from the weekly ones, such as holidays. Any row for a date replaces
+// that day's weekly hours; a row without times means closed all day.
+export const hoursExceptions = pgTable("hours_exceptions", {
+  id: serial("id").primaryKey(),
+  establishmentId: integer("establishment_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(),
+  opensAt: timeOfDay("opens_at"),
+  closesAt: timeOfDay("closes_at"),
+  label: text("label"),
+}, (table) => [
+  index("hours_exceptions_establishment_date_idx").on(table.establishmentId, table.date),
+]);
+
+// Reviews: one per user per establishment
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  establishmentId: integer("establishment_id").notNull(),
+  userId: integer("user_id").notNull(),
+  rating: integer("rating").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("reviews_establishment_user_unique").on(table.establishmentId, table.userId),
+]);
+
+// A field's value before and after a change; null on the missing side of a create or delete
+export type FieldChange = {
+  before: unknown;
+  after: unknown;
+};
+
+// Who changed which fields of an establishment or one of its attachments, and when.
+// establishmentId has no foreign key so the history outlives the establishment.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").$type<AuditedEntity>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  establishmentId: integer("establishment_id").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  changes: jsonb("changes").$type<Record<string, FieldChange>>().notNull(),
+  userId: integer("user_id").references(() => users.id), // Null for system jobs such as blob reconciliation
+  revertOf: integer("revert_of").references((): AnyPgColumn => auditLog.id), // The entry this one undid
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("audit_log_establishment_idx").on(table.establishmentId, table.createdAt),
+]);
+
 // Define the relationships
 export const usersRelations = relations(users, ({ many }) => ({
   establishments: many(establishments),
   attachments: many(attachments),
+  reviews: many(reviews),
 }));
 
 export const establishmentsRelations = relations(establishments, ({ one, many }) => ({
@@ -51,6 +271,73 @@ export const establishmentsRelations = relations(establishments, ({ one, many })
     references: [users.id],
   }),
   attachments: many(attachments),
+  reviews: many(reviews),
+  openingHours: many(openingHours),
+  hoursExceptions: many(hoursExceptions),
+  category: one(categories, {
+    fields: [establishments.category],
+    references: [categories.slug],
+  }),
+  establishmentTags: many(establishmentTags),
+  location: one(locations, {
+    fields: [establishments.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  parent: one(locations, {
+    fields: [locations.parentId],
+    references: [locations.id],
+    relationName: "locationParent",
+  }),
+  children: many(locations, { relationName: "locationParent" }),
+  establishments: many(establishments),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "categoryParent",
+  }),
+  children: many(categories, { relationName: "categoryParent" }),
+  establishments: many(establishments),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  parent: one(tags, {
+    fields: [tags.parentId],
+    references: [tags.id],
+    relationName: "tagParent",
+  }),
+  children: many(tags, { relationName: "tagParent" }),
+  establishmentTags: many(establishmentTags),
+}));
+
+export const establishmentTagsRelations = relations(establishmentTags, ({ one }) => ({
+  establishment: one(establishments, {
+    fields: [establishmentTags.establishmentId],
+    references: [establishments.id],
+  }),
+  tag: one(tags, {
+    fields: [establishmentTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const openingHoursRelations = relations(openingHours, ({ one }) => ({
+  establishment: one(establishments, {
+    fields: [openingHours.establishmentId],
+    references: [establishments.id],
+  }),
+}));
+
+export const hoursExceptionsRelations = relations(hoursExceptions, ({ one }) => ({
+  establishment: one(establishments, {
+    fields: [hoursExceptions.establishmentId],
+    references: [establishments.id],
+  }),
 }));
 
 export const attachmentsRelations = relations(attachments, ({ one }) => ({
@@ -64,61 +351,217 @@ export const attachmentsRelations = relations(attachments, ({ one }) => ({
   }),
 }));
 
-// Establishment categories
-export const ESTABLISHMENT_CATEGORIES = [
-  'Restaurant',
-  'Retail',
-  'Services',
-  'Entertainment'
-] as const;
-
-// Rating options
-export const RATING_OPTIONS = [
-  '5',
-  '4.5',
-  '4',
-  '3.5',
-  '3',
-  '2.5',
-  '2'
-] as const;
+export const reviewsRelations = relations(reviews, ({ one }) => ({
+  establishment: one(establishments, {
+    fields: [reviews.establishmentId],
+    references: [establishments.id],
+  }),
+  user: one(users, {
+    fields: [reviews.userId],
+    references: [users.id],
+  }),
+}));
 
-// Location options
-export const LOCATION_OPTIONS = [
-  'Downtown',
-  'Uptown',
-  'Midtown',
-  'Suburban'
-] as const;
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  user: one(users, {
+    fields: [auditLog.userId],
+    references: [users.id],
+  }),
+}));
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true, 
+  role: true,
+  createdAt: true
+});
+
+const addressPart = z.string().max(200).nullable().optional();
+
+const slugSchema = z.string().max(60).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slugs use lowercase letters, digits and single hyphens");
+
+// Fields shared by categories and tags
+const termFields = {
+  name: z.string().trim().min(1, "Name is required").max(60),
+  slug: slugSchema,
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colours are hex codes such as #2563eb").optional(),
+  icon: z.string().max(60).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Icons are lucide names such as utensils").nullable().optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+};
+
+export const insertCategorySchema = createInsertSchema(categories, termFields).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertTagSchema = createInsertSchema(tags, termFields).omit({
+  id: true,
   createdAt: true
 });
 
-export const insertEstablishmentSchema = createInsertSchema(establishments).omit({
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  kind: z.enum(LOCATION_KINDS),
+  parentId: z.number().int().positive().nullable().optional(),
+}).omit({
   id: true,
   createdAt: true
 });
 
+// Slugs of the tags to apply to an establishment, replacing its current ones
+export const establishmentTagsSchema = z.array(slugSchema).max(20);
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown time zone");
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+
+// rating and reviewCount are derived from reviews and location from the address, never set directly
+export const insertEstablishmentSchema = createInsertSchema(establishments, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+  description: z.string().max(5000).nullable().optional(),
+  street: addressPart,
+  district: addressPart,
+  category: slugSchema,
+  city: z.string().trim().min(1, "City is required").max(200),
+  postalCode: z.string().max(20).nullable().optional(),
+  country: addressPart,
+  locationId: z.number().int().positive().nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  timezone: timeZoneSchema.optional(),
+}).omit({
+  id: true,
+  location: true,
+  rating: true,
+  reviewCount: true,
+  createdAt: true,
+  deletedAt: true,
+  version: true
+});
+
+// What a PATCH may change, all optional: the owner, the derived fields and the version are not among them,
+// and any field outside this list is rejected rather than ignored
+export const updateEstablishmentSchema = insertEstablishmentSchema.omit({
+  userId: true
+}).extend({
+  tags: establishmentTagsSchema,
+}).partial().strict().refine(
+  (changes) => ("latitude" in changes) === ("longitude" in changes) && (changes.latitude == null) === (changes.longitude == null),
+  { message: "latitude and longitude must be set together", path: ["latitude"] }
+);
+
 export const insertAttachmentSchema = createInsertSchema(attachments).omit({
   id: true,
-  uploadDate: true
+  uploadDate: true,
+  deletedAt: true
+});
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(MIN_REVIEW_RATING).max(MAX_RATING),
+  comment: z.string().max(2000, "Reviews are limited to 2000 characters").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+const differentTimes = (shift: { opensAt: string | null; closesAt: string | null }) =>
+  shift.opensAt === null || shift.opensAt !== shift.closesAt;
+const SAME_TIMES_MESSAGE = "A shift cannot open and close at the same time";
+
+// Replaces an establishment's whole schedule at once
+export const scheduleInputSchema = z.object({
+  timezone: timeZoneSchema,
+  hours: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    opensAt: timeOfDaySchema,
+    closesAt: timeOfDaySchema,
+  }).refine(differentTimes, SAME_TIMES_MESSAGE)).max(7 * 6),
+  exceptions: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD"),
+    // Both null for a day the establishment is closed
+    opensAt: timeOfDaySchema.nullable(),
+    closesAt: timeOfDaySchema.nullable(),
+    label: z.string().max(100).nullable().optional(),
+  }).refine((exception) => (exception.opensAt === null) === (exception.closesAt === null), "Set both times, or neither for a closed day")
+    .refine(differentTimes, SAME_TIMES_MESSAGE)).max(366),
+});
+
+// What a client sends to create or update its own review
+export const reviewInputSchema = insertReviewSchema.pick({
+  rating: true,
+  comment: true
 });
 
 // Define the types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
 
 export type Establishment = typeof establishments.$inferSelect;
 export type InsertEstablishment = z.infer<typeof insertEstablishmentSchema>;
+export type UpdateEstablishment = z.infer<typeof updateEstablishmentSchema>;
+
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+
+// Categories and tags share a shape and are managed the same way
+export const TAXONOMY_KINDS = ["categories", "tags"] as const;
+export type TaxonomyKind = typeof TAXONOMY_KINDS[number];
+export type TaxonomyTerm = Category | Tag;
+
+// "Cafés & Bars" -> "cafes-bars"
+export function slugify(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
 
 export type Attachment = typeof attachments.$inferSelect;
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type ReviewInput = z.infer<typeof reviewInputSchema>;
+
+export type OpeningHours = typeof openingHours.$inferSelect;
+export type HoursException = typeof hoursExceptions.$inferSelect;
+export type ScheduleInput = z.infer<typeof scheduleInputSchema>;
+
+// When an establishment is open, as stored: the weekly shifts and the exception dates
+export type EstablishmentSchedule = {
+  timezone: string;
+  hours: Pick<OpeningHours, "dayOfWeek" | "opensAt" | "closesAt">[];
+  exceptions: Pick<HoursException, "date" | "opensAt" | "closesAt" | "label">[];
+};
+
+// A review with the public profile of the user who wrote it
+export type ReviewWithAuthor = Review & {
+  author: Pick<User, "displayName" | "photoURL">;
+};
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+
+// An audit entry with the public profile of the user who made the change; null for system jobs
+export type AuditEntryWithActor = AuditEntry & {
+  actor: Pick<User, "displayName" | "username"> | null;
+};
+
 // Extended schemas for validation
-export const userValidationSchema = insertUserSchema.extend({
+export const userValidationSchema = insertUserSchema.omit({
+  firebaseUid: true
+}).extend({
+  password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string()
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords must match",
@@ -127,6 +570,106 @@ export const userValidationSchema = insertUserSchema.extend({
 
 export type UserValidation = z.infer<typeof userValidationSchema>;
 
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginData = z.infer<typeof loginSchema>;
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+// Full-text search matches wrapped in <mark>…</mark>; present when the list was searched with q
+export type SearchHighlights = {
+  name: string;
+  description: string | null;
+};
+
+export type EstablishmentListItem = Establishment & {
+  highlights?: SearchHighlights;
+  // Kilometres from the point the list was searched around, when one was given
+  distanceKm?: number | null;
+  // Weekly hours plus the exceptions around today, enough to tell whether it is open now
+  schedule?: EstablishmentSchedule;
+  // Slugs of the establishment's tags
+  tags?: string[];
+};
+
+// What a user may restore or purge: deleted establishments, and files deleted from establishments still listed
+export type Trash = {
+  establishments: Establishment[];
+  attachments: Attachment[];
+};
+
+// Establishment fields a spreadsheet column can fill on import
+export const IMPORT_FIELDS = [
+  "name", "category", "tags", "description",
+  "street", "district", "city", "postalCode", "country",
+  "latitude", "longitude", "timezone",
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Rows an import may hold below its header row
+export const MAX_IMPORT_ROWS = 2000;
+
+// The field each column header fills; columns mapped to null are ignored
+export const importMappingSchema = z.record(z.string(), z.enum(IMPORT_FIELDS).nullable());
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export type ImportRowStatus = "valid" | "invalid" | "duplicate";
+
+export type ImportRow = {
+  // As the spreadsheet numbers it, so the header is row 1
+  row: number;
+  name: string;
+  status: ImportRowStatus;
+  // In the same shape as the API's validation errors
+  errors: { path: (string | number)[]; message: string }[];
+  // A duplicate names the listed establishment or the earlier row it repeats
+  duplicateOf?: { establishmentId: number } | { row: number };
+  // The city and district, as far as the location tree lacks them, that importing the row adds
+  newLocations?: string[];
+  // Set once the row has been imported
+  establishmentId?: number;
+};
+
+// Every row of an import, checked; a dry run stops there, a real one also creates the valid rows
+export type ImportReport = {
+  dryRun: boolean;
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportRow[];
+  counts: Record<ImportRowStatus, number>;
+  created: number;
+};
+
+// File types the establishment list can be exported as
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// One page of a cursor-paginated list
+export type Paginated<T> = {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+};
+
+// What the calling user may do with a record, computed by the server
+export type ResourcePermissions = {
+  canEdit: boolean;
+  canDelete: boolean;
+};
+
+export type WithPermissions<T> = T & { permissions: ResourcePermissions };
+
 // Firebase-specific types
 export type FirebaseUser = {
   uid: string;
@@ -140,11 +683,29 @@ export type FirebaseEstablishment = {
   name: string;
   category: string;
   location: string;
+  street: string | null;
+  district: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string | null;
+  locationId: string | null;
+  // The location and its ancestors, root first; sent with a single establishment
+  locationPath?: Location[];
   description?: string;
-  rating: string;
+  rating: number | null;
+  reviewCount: number;
   coverImage?: string;
+  latitude: number | null;
+  longitude: number | null;
+  timezone: string;
   userId?: string; // Make userId optional
   createdAt: Date;
+  version: number;
+  permissions?: ResourcePermissions;
+  highlights?: SearchHighlights;
+  distanceKm?: number | null;
+  schedule?: EstablishmentSchedule;
+  tags: string[];
 };
 
 export type FirebaseAttachment = {
@@ -156,4 +717,5 @@ export type FirebaseAttachment = {
   establishmentId: string;
   userId: string;
   uploadDate: Date;
+  permissions?: ResourcePermissions;
 };